@@ -1,6 +1,7 @@
 /**
  * Add "price to beat" line as the second line of each log file.
- * Extracts the Kalshi and Polymarket prices from the first Entry line.
+ * Extracts the Kalshi and Polymarket prices from the first Entry line, plus the underlying's
+ * price to beat from the monitor's "[Spot] ... price to beat X" line when the log has one.
  */
 import * as fs from "fs";
 import * as path from "path";
@@ -13,6 +14,13 @@ const DIRS = [
 interface PriceToBeat {
   kalshi: number;
   polymarket: number;
+  spot: number | null;
+}
+
+/** Spot price to beat logged by the monitor (Kalshi floor_strike or spot at slot open) */
+function findSpotPriceToBeat(content: string): number | null {
+  const match = content.match(/\[Spot\]\s+\S+\s+price to beat\s+([\d.]+)/);
+  return match ? parseFloat(match[1]) : null;
 }
 
 /** Find first Entry line and extract prices */
@@ -25,7 +33,7 @@ function findPriceToBeat(content: string): PriceToBeat | null {
     if (match) {
       const kalshi = parseFloat(match[2]);
       const poly = parseFloat(match[3]);
-      return { kalshi, polymarket: poly };
+      return { kalshi, polymarket: poly, spot: findSpotPriceToBeat(content) };
     }
   }
   
@@ -70,11 +78,12 @@ function main(): void {
       }
 
       // Insert as second line
-      const priceLine = `# Price to beat - Kalshi: ${prices.kalshi.toFixed(2)} | Polymarket: ${prices.polymarket.toFixed(2)}`;
+      const spotPart = prices.spot != null ? ` | Spot: ${prices.spot.toFixed(2)}` : "";
+      const priceLine = `# Price to beat - Kalshi: ${prices.kalshi.toFixed(2)} | Polymarket: ${prices.polymarket.toFixed(2)}${spotPart}`;
       lines.splice(1, 0, priceLine);
       
       fs.writeFileSync(filePath, lines.join("\n"), "utf8");
-      console.log(`  [ADD] ${file} → Kalshi: ${prices.kalshi.toFixed(2)} | Polymarket: ${prices.polymarket.toFixed(2)}`);
+      console.log(`  [ADD] ${file} → Kalshi: ${prices.kalshi.toFixed(2)} | Polymarket: ${prices.polymarket.toFixed(2)}${spotPart}`);
       totalUpdated++;
     }
   }
@@ -8,6 +8,15 @@
  */
 import * as fs from "fs";
 import * as path from "path";
+import {
+  constantCurve,
+  evalThresholdCurve,
+  formatThresholdCurve,
+  parseThresholdCurve,
+  type ThresholdCurve,
+} from "../src/core/threshold-curve";
+import { getSlotSchedule, secondsToSlotEnd } from "../src/core/slot-schedule";
+import { MONITOR_SCHEDULE } from "../src/core/config";
 
 const LOG_DIR = path.resolve(__dirname, "../logs");
 const KALSHI_TRIGGER = 1.0;
@@ -16,10 +25,14 @@ const DEFAULT_POLY_BUY_MIN = 0.8;
 const DEFAULT_POLY_SELL_BELOW = 0.7;
 const DEFAULT_RANGE_BUFFER = 0.15;
 
+/** Slots of the logs: the monitor's schedule (MONITOR_SCHEDULE), whose close the curves count down to */
+const SCHEDULE = getSlotSchedule(MONITOR_SCHEDULE);
+
+/** Thresholds as curves over seconds left in the slot (flat for plain values), same as the live strategy. */
 interface SimParams {
-  polyBuyMin: number;
-  polySellBelow: number;
-  rangeBuffer: number;
+  polyBuyMin: ThresholdCurve;
+  polySellBelow: ThresholdCurve;
+  rangeBuffer: ThresholdCurve;
 }
 
 interface PriceRow {
@@ -29,6 +42,7 @@ interface PriceRow {
   kDown: number;
   pUp: number;
   pDown: number;
+  secondsLeft: number;
 }
 
 function parsePriceLine(line: string): PriceRow | null {
@@ -36,9 +50,11 @@ function parsePriceLine(line: string): PriceRow | null {
     /\[([^\]]+)\]\s*Kalshi UP ([\d.]+) DOWN ([\d.]+)\s*\|\s*Polymarket UP ([\d.]+) DOWN ([\d.]+)/
   );
   if (!m) return null;
+  const tsMs = new Date(m[1]).getTime();
   return {
     ts: m[1],
-    tsMs: new Date(m[1]).getTime(),
+    tsMs,
+    secondsLeft: secondsToSlotEnd(SCHEDULE, tsMs),
     kUp: parseFloat(m[2]),
     kDown: parseFloat(m[3]),
     pUp: parseFloat(m[4]),
@@ -92,7 +108,7 @@ function runSimulation(
         upBuyPrice = row.pUp;
         break;
       }
-      if (upSeen1 && row.pUp >= polyBuyMin) {
+      if (upSeen1 && row.pUp >= evalThresholdCurve(polyBuyMin, row.secondsLeft)) {
         upBoughtAt = i;
         upBuyPrice = row.pUp;
         break;
@@ -105,7 +121,8 @@ function runSimulation(
       const endIdx = prices.length;
       for (let i = upBoughtAt + 1; i < endIdx; i++) {
         const row = prices[i];
-        const effectiveThreshold = row.kUp >= 1.0 ? polySellBelow - rangeBuffer : polySellBelow;
+        const sellBelow = evalThresholdCurve(polySellBelow, row.secondsLeft);
+        const effectiveThreshold = row.kUp >= 1.0 ? sellBelow - evalThresholdCurve(rangeBuffer, row.secondsLeft) : sellBelow;
         if (row.pUp < effectiveThreshold) {
           soldAt = row.ts;
           sellPrice = row.pUp;
@@ -145,7 +162,7 @@ function runSimulation(
         downBuyPrice = row.pDown;
         break;
       }
-      if (downSeen1 && row.pDown >= polyBuyMin) {
+      if (downSeen1 && row.pDown >= evalThresholdCurve(polyBuyMin, row.secondsLeft)) {
         downBoughtAt = i;
         downBuyPrice = row.pDown;
         break;
@@ -158,7 +175,8 @@ function runSimulation(
       const endIdx = prices.length;
       for (let i = downBoughtAt + 1; i < endIdx; i++) {
         const row = prices[i];
-        const effectiveThreshold = row.kDown >= 1.0 ? polySellBelow - rangeBuffer : polySellBelow;
+        const sellBelow = evalThresholdCurve(polySellBelow, row.secondsLeft);
+        const effectiveThreshold = row.kDown >= 1.0 ? sellBelow - evalThresholdCurve(rangeBuffer, row.secondsLeft) : sellBelow;
         if (row.pDown < effectiveThreshold) {
           soldAt = row.ts;
           sellPrice = row.pDown;
@@ -198,20 +216,42 @@ function getTotalProfit(results: SimTrade[]): number {
   return results.reduce((sum, r) => sum + singleTradeProfit(r), 0);
 }
 
+function flat(polyBuyMin: number, polySellBelow: number, rangeBuffer: number): SimParams {
+  return { polyBuyMin: constantCurve(polyBuyMin), polySellBelow: constantCurve(polySellBelow), rangeBuffer: constantCurve(rangeBuffer) };
+}
+
 const COMPARE_PAIRS: Array<SimParams> = [
-  { polyBuyMin: 0.94, polySellBelow: 0.77, rangeBuffer: 0.15 }, // current default
-  { polyBuyMin: 0.8, polySellBelow: 0.7, rangeBuffer: 0.15 },
-  { polyBuyMin: 0.8, polySellBelow: 0.55, rangeBuffer: 0.15 },
-  { polyBuyMin: 0.85, polySellBelow: 0.7, rangeBuffer: 0.15 },
-  { polyBuyMin: 0.85, polySellBelow: 0.75, rangeBuffer: 0.2 },
-  { polyBuyMin: 0.9, polySellBelow: 0.8, rangeBuffer: 0.15 },
-  { polyBuyMin: 0.8, polySellBelow: 0.7, rangeBuffer: 0.1 },
-  { polyBuyMin: 0.8, polySellBelow: 0.7, rangeBuffer: 0.2 },
-  { polyBuyMin: 0.8, polySellBelow: 0.55, rangeBuffer: 0.1 },
-  { polyBuyMin: 0.8, polySellBelow: 0.55, rangeBuffer: 0.2 },
+  flat(0.94, 0.77, 0.15), // current default
+  flat(0.8, 0.7, 0.15),
+  flat(0.8, 0.55, 0.15),
+  flat(0.85, 0.7, 0.15),
+  flat(0.85, 0.75, 0.2),
+  flat(0.9, 0.8, 0.15),
+  flat(0.8, 0.7, 0.1),
+  flat(0.8, 0.7, 0.2),
+  flat(0.8, 0.55, 0.1),
+  flat(0.8, 0.55, 0.2),
 ];
 
+/** POLY_*_CURVE from the environment (same syntax as the monitor), simulated as an extra row when any is set. */
+function envCurves(): SimParams | null {
+  const { POLY_BUY_MIN_CURVE, POLY_SELL_BELOW_CURVE, POLY_SELL_RANGE_BUFFER_CURVE } = process.env;
+  if (!POLY_BUY_MIN_CURVE && !POLY_SELL_BELOW_CURVE && !POLY_SELL_RANGE_BUFFER_CURVE) return null;
+  return {
+    polyBuyMin: parseThresholdCurve(POLY_BUY_MIN_CURVE, DEFAULT_POLY_BUY_MIN),
+    polySellBelow: parseThresholdCurve(POLY_SELL_BELOW_CURVE, DEFAULT_POLY_SELL_BELOW),
+    rangeBuffer: parseThresholdCurve(POLY_SELL_RANGE_BUFFER_CURVE, DEFAULT_RANGE_BUFFER),
+  };
+}
+
+/** Table cell: the value of a flat curve, "curve" otherwise (listed under the table). */
+function cell(curve: ThresholdCurve): string {
+  return curve.length === 1 ? formatThresholdCurve(curve) : "curve";
+}
+
 function main(): void {
+  const env = envCurves();
+  const compare = env ? [...COMPARE_PAIRS, env] : COMPARE_PAIRS;
   const dir = process.env.LOG_DIR || LOG_DIR;
   if (!fs.existsSync(dir)) {
     console.error("Log dir not found:", dir);
@@ -241,16 +281,16 @@ function main(): void {
   console.log(header);
   console.log("-".repeat(header.length + 10));
 
-  for (const params of COMPARE_PAIRS) {
+  for (const params of compare) {
     const results = runSimulation(files, params);
     const bought = results.length;
     const sold = results.filter((r) => r.soldAt !== null).length;
     const held = results.filter((r) => r.heldToEnd).length;
     const sumProfit = getTotalProfit(results);
     const row =
-      pad(params.polyBuyMin.toFixed(2), col.buyMin) +
-      pad(params.polySellBelow.toFixed(2), col.sellBelow) +
-      pad(params.rangeBuffer.toFixed(2), col.buffer) +
+      pad(cell(params.polyBuyMin), col.buyMin) +
+      pad(cell(params.polySellBelow), col.sellBelow) +
+      pad(cell(params.rangeBuffer), col.buffer) +
       pad(String(bought), col.buys) +
       pad(String(sold), col.sold) +
       pad(String(held), col.held) +
@@ -258,6 +298,9 @@ function main(): void {
     console.log(row);
   }
   console.log("-".repeat(header.length + 10));
+  if (env) {
+    console.log(`curve row: polyBuyMin ${formatThresholdCurve(env.polyBuyMin)}; polySellBelow ${formatThresholdCurve(env.polySellBelow)}; rangeBuffer ${formatThresholdCurve(env.rangeBuffer)} (seconds left in slot)`);
+  }
   console.log("\n========== Done ==========");
 }
 
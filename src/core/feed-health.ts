@@ -0,0 +1,176 @@
+/**
+ * Feed health per venue and asset: rolling latency / error-rate stats over the last FEED_HEALTH_WINDOW samples
+ * and a staleness check on the latest quote. State changes (healthy / degraded / stale) are logged;
+ * getFeedHealth returns the current state for strategies and tooling.
+ */
+import { FEED_ERROR_RATE_DEGRADED, FEED_HEALTH_WINDOW, FEED_STALE_MS } from "./config";
+import { appendMonitorLogWithTimestamp, assetLogStream } from "./monitor-logger";
+
+export type FeedVenue = "kalshi" | "polymarket" | "spot";
+
+/** "degraded" is informational (high error rate); "stale" means quotes must not be traded on. */
+export type FeedState = "healthy" | "degraded" | "stale";
+
+/** Timestamps every venue quote carries. */
+export interface QuoteTiming {
+  /** When the REST request started (null for WebSocket pushes) */
+  requestedAt: Date | null;
+  /** Exchange time of the book/quote when the venue reports it (REST Date header or /book timestamp, WS message ts) */
+  exchangeAt: Date | null;
+  /** When the quote was received (or rebuilt from a live WebSocket book) */
+  fetchedAt: Date;
+}
+
+export interface FeedHealth {
+  venue: FeedVenue;
+  asset: string;
+  state: FeedState;
+  /** Why the feed is not healthy (null when healthy) */
+  reason: string | null;
+  /** Time of the last state change */
+  since: Date;
+  samples: number;
+  errorRate: number;
+  /** Request latency (REST) or exchange → receive latency (WebSocket), ms */
+  latencyAvgMs: number | null;
+  latencyP95Ms: number | null;
+  lastQuoteAt: Date | null;
+  lastErrorAt: Date | null;
+  lastError: string | null;
+}
+
+interface Sample {
+  ok: boolean;
+  latencyMs: number | null;
+}
+
+interface FeedTracker {
+  venue: FeedVenue;
+  asset: string;
+  samples: Sample[];
+  state: FeedState;
+  reason: string | null;
+  since: Date;
+  lastQuoteAt: Date | null;
+  lastErrorAt: Date | null;
+  lastError: string | null;
+}
+
+const trackers = new Map<string, FeedTracker>();
+
+function getTracker(venue: FeedVenue, asset: string): FeedTracker {
+  const key = `${venue}:${asset}`;
+  let t = trackers.get(key);
+  if (!t) {
+    // Stale until the first quote arrives
+    t = {
+      venue,
+      asset,
+      samples: [],
+      state: "stale",
+      reason: "no quote yet",
+      since: new Date(),
+      lastQuoteAt: null,
+      lastErrorAt: null,
+      lastError: null,
+    };
+    trackers.set(key, t);
+  }
+  return t;
+}
+
+function pushSample(t: FeedTracker, sample: Sample): void {
+  t.samples.push(sample);
+  if (t.samples.length > FEED_HEALTH_WINDOW) t.samples.shift();
+}
+
+/** Age of a quote at `nowMs` (Infinity when there is none). */
+export function quoteAgeMs(quote: QuoteTiming | null | undefined, nowMs: number): number {
+  return quote ? nowMs - quote.fetchedAt.getTime() : Infinity;
+}
+
+/** Record a received quote: REST latency is request → response, WebSocket latency is exchange ts → receive. */
+export function recordFeedQuote(venue: FeedVenue, asset: string, quote: QuoteTiming): void {
+  const t = getTracker(venue, asset);
+  const received = quote.fetchedAt.getTime();
+  const from = quote.requestedAt ?? quote.exchangeAt;
+  pushSample(t, { ok: true, latencyMs: from ? Math.max(0, received - from.getTime()) : null });
+  t.lastQuoteAt = quote.fetchedAt;
+}
+
+export function recordFeedError(venue: FeedVenue, asset: string, error: string): void {
+  const t = getTracker(venue, asset);
+  pushSample(t, { ok: false, latencyMs: null });
+  t.lastErrorAt = new Date();
+  t.lastError = error;
+}
+
+function snapshot(t: FeedTracker): FeedHealth {
+  const latencies = t.samples
+    .map((s) => s.latencyMs)
+    .filter((v): v is number => v != null)
+    .sort((a, b) => a - b);
+  const errors = t.samples.filter((s) => !s.ok).length;
+  return {
+    venue: t.venue,
+    asset: t.asset,
+    state: t.state,
+    reason: t.reason,
+    since: t.since,
+    samples: t.samples.length,
+    errorRate: t.samples.length > 0 ? errors / t.samples.length : 0,
+    latencyAvgMs: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null,
+    latencyP95Ms: latencies.length > 0 ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : null,
+    lastQuoteAt: t.lastQuoteAt,
+    lastErrorAt: t.lastErrorAt,
+    lastError: t.lastError,
+  };
+}
+
+function formatStats(h: FeedHealth): string {
+  const avg = h.latencyAvgMs != null ? `${Math.round(h.latencyAvgMs)}ms` : "?";
+  const p95 = h.latencyP95Ms != null ? `${Math.round(h.latencyP95Ms)}ms` : "?";
+  return `latency avg ${avg} p95 ${p95}, errors ${(h.errorRate * 100).toFixed(0)}% of ${h.samples}`;
+}
+
+/**
+ * Re-evaluate a feed against the quote the monitor is about to hand out; logs on state change.
+ * Stale: no quote or older than FEED_STALE_MS. Degraded: error rate over the window >= FEED_ERROR_RATE_DEGRADED.
+ */
+export function updateFeedHealth(venue: FeedVenue, asset: string, quote: QuoteTiming | null, nowMs: number): FeedState {
+  const t = getTracker(venue, asset);
+  const age = quoteAgeMs(quote, nowMs);
+  const current = snapshot(t);
+  let state: FeedState = "healthy";
+  let reason: string | null = null;
+  if (age > FEED_STALE_MS) {
+    state = "stale";
+    reason = quote ? `last quote ${Math.round(age)}ms old (limit ${FEED_STALE_MS}ms)` : `no quote${t.lastError ? ` (${t.lastError})` : ""}`;
+  } else if (current.samples >= 10 && current.errorRate >= FEED_ERROR_RATE_DEGRADED) {
+    state = "degraded";
+    reason = `error rate ${(current.errorRate * 100).toFixed(0)}%`;
+  }
+  if (state !== t.state) {
+    const previous = t.state;
+    t.state = state;
+    t.reason = reason;
+    t.since = new Date(nowMs);
+    const stream = assetLogStream(asset);
+    const msg = `[FeedHealth] ${venue} ${asset}: ${previous} → ${state}${reason ? ` (${reason})` : ""}; ${formatStats(current)}`;
+    console[state === "healthy" ? "log" : "warn"](stream ? `[${asset}] ${msg}` : msg);
+    appendMonitorLogWithTimestamp(msg, stream);
+  } else {
+    t.reason = reason;
+  }
+  return state;
+}
+
+/** Current health of one venue feed for an asset. */
+export function getFeedHealth(asset: string, venue: FeedVenue): FeedHealth {
+  return snapshot(getTracker(venue, asset));
+}
+
+/** Current health of every tracked feed. */
+export function listFeedHealth(): FeedHealth[] {
+  return [...trackers.values()].map(snapshot);
+}
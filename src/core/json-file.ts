@@ -0,0 +1,30 @@
+/**
+ * Small JSON state files under the working directory (open positions, risk state, breakers, sizing history).
+ */
+import * as fs from "fs";
+import * as path from "path";
+
+/** Absolute path of a state file configured relative to the working directory. */
+export function stateFilePath(file: string): string {
+  return path.resolve(process.cwd(), file);
+}
+
+/** Parsed contents of `file`, or null when it is missing or not valid JSON. */
+export function readJsonFile<T>(file: string): T | null {
+  const resolved = stateFilePath(file);
+  if (!fs.existsSync(resolved)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(resolved, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Write via a temp file + rename so a crash mid-write never leaves a truncated file. Throws on I/O errors. */
+export function writeJsonFileAtomic(file: string, data: unknown): void {
+  const resolved = stateFilePath(file);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  const tmp = `${resolved}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8");
+  fs.renameSync(tmp, resolved);
+}
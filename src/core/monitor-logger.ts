@@ -1,20 +1,19 @@
 /**
- * Monitor logger: appends price lines to one log file per 15m market slot.
- * File: logs/monitor_{YYYY-MM-DD}_{HH}-{00|15|30|45}.log
+ * Monitor logger: appends price lines to one log file per market slot (slot length from the asset's schedule).
+ * File: logs/monitor_{YYYY-MM-DD}_{HH}-{MM}.log, where HH-MM is the slot start (e.g. 06-30 for a 15m slot)
+ * With several assets monitored, each asset has its own stream: logs/monitor_{asset}_{YYYY-MM-DD}_{HH}-{MM}.log
  */
 import * as fs from "fs";
 import * as path from "path";
+import { MONITOR_ASSETS } from "./config";
+import { getSlotSchedule, slotBucket, type SlotSchedule } from "./slot-schedule";
 
 const LOGS_DIR = "logs";
 
-function timeBucket15m(d: Date): string {
-  const y = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, "0");
-  const day = String(d.getDate()).padStart(2, "0");
-  const h = String(d.getHours()).padStart(2, "0");
-  const min = Math.floor(d.getMinutes() / 15) * 15;
-  const minStr = String(min).padStart(2, "0");
-  return `${y}-${month}-${day}_${h}-${minStr}`;
+/** Schedule that buckets a stream: the asset's own, or the first asset's for the shared file. */
+function scheduleForStream(stream: string | undefined): SlotSchedule {
+  const pair = MONITOR_ASSETS.find((a) => a.asset === stream) ?? MONITOR_ASSETS[0];
+  return getSlotSchedule(pair.schedule);
 }
 
 function ensureLogsDir(): void {
@@ -22,20 +21,33 @@ function ensureLogsDir(): void {
 }
 
 /**
- * Append a line to the monitor log file for the given time (15m slot).
+ * Log stream for an asset. Undefined (the shared monitor_{slot}.log) when only one asset is monitored,
+ * so single-asset runs keep the file names the analysis scripts expect.
  */
-export function appendMonitorLog(line: string, at: Date): void {
+export function assetLogStream(asset: string): string | undefined {
+  return MONITOR_ASSETS.length > 1 ? asset : undefined;
+}
+
+/** Slot file for `at` on a stream: logs/monitor_[{stream}_]{YYYY-MM-DD}_{HH}-{MM}{ext}. Creates logs/ if needed. */
+export function monitorLogPath(at: Date, stream?: string, ext: string = ".log"): string {
   ensureLogsDir();
-  const bucket = timeBucket15m(at);
-  const filename = `monitor_${bucket}.log`;
-  const filepath = path.join(LOGS_DIR, filename);
+  const bucket = slotBucket(scheduleForStream(stream), at);
+  const filename = stream ? `monitor_${stream}_${bucket}${ext}` : `monitor_${bucket}${ext}`;
+  return path.join(LOGS_DIR, filename);
+}
+
+/**
+ * Append a line to the monitor log file for the given time (slot), optionally on an asset's stream.
+ */
+export function appendMonitorLog(line: string, at: Date, stream?: string): void {
+  const filepath = monitorLogPath(at, stream);
   fs.appendFile(filepath, line + "\n", "utf8", (err) => {
     if (err) console.error("Monitor log append error:", err);
   });
 }
 
-/** Append a line with [ISO timestamp] prefix to the current 15m slot's monitor log. */
-export function appendMonitorLogWithTimestamp(message: string): void {
+/** Append a line with [ISO timestamp] prefix to the current slot's monitor log (or an asset's stream). */
+export function appendMonitorLogWithTimestamp(message: string, stream?: string): void {
   const at = new Date();
-  appendMonitorLog(`[${at.toISOString()}] ${message}`, at);
+  appendMonitorLog(`[${at.toISOString()}] ${message}`, at, stream);
 }
@@ -0,0 +1,74 @@
+/**
+ * Order book depth shared by both venues.
+ * Prices stay in the venue's own unit: Kalshi cents (1–99), Polymarket decimal (0–1).
+ */
+
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+/** Top N levels per side, best first (bids descending, asks ascending). */
+export interface BookDepth {
+  bids: BookLevel[];
+  asks: BookLevel[];
+}
+
+/** Sort a price → size map into the top `depth` levels, best first. Zero/invalid sizes are dropped. */
+export function topLevels(levels: Map<number, number>, side: "bid" | "ask", depth: number): BookLevel[] {
+  const out: BookLevel[] = [];
+  for (const [price, size] of levels) {
+    if (Number.isFinite(price) && Number.isFinite(size) && size > 0) out.push({ price, size });
+  }
+  out.sort((a, b) => (side === "bid" ? b.price - a.price : a.price - b.price));
+  return out.slice(0, Math.max(1, depth));
+}
+
+/** Mid of best bid and best ask; falls back to whichever side exists. */
+export function midPrice(bid: number | null | undefined, ask: number | null | undefined): number | null {
+  const hasBid = bid != null && Number.isFinite(bid) && bid > 0;
+  const hasAsk = ask != null && Number.isFinite(ask);
+  if (hasBid && hasAsk) return (bid + ask) / 2;
+  if (hasAsk) return ask;
+  if (hasBid) return bid;
+  return null;
+}
+
+/** Total size on the given levels at prices no worse than `limit` (bids >= limit, asks <= limit). */
+export function sizeWithin(levels: BookLevel[], side: "bid" | "ask", limit: number): number {
+  let total = 0;
+  for (const level of levels) {
+    if (side === "bid" ? level.price < limit : level.price > limit) break;
+    total += level.size;
+  }
+  return total;
+}
+
+/** Buying `size` against ask levels up to `limit`: the size that fills and its VWAP (null when nothing fills). */
+export function buyFill(asks: BookLevel[], limit: number, size: number): { filled: number; vwap: number | null } {
+  let filled = 0;
+  let cost = 0;
+  for (const level of asks) {
+    if (level.price > limit || filled >= size) break;
+    const take = Math.min(level.size, size - filled);
+    filled += take;
+    cost += take * level.price;
+  }
+  return { filled, vwap: filled > 0 ? cost / filled : null };
+}
+
+/** Largest size (up to `size`) that fills against ask levels up to `limit` with a VWAP no worse than `maxVwap`. */
+export function maxBuySize(asks: BookLevel[], limit: number, maxVwap: number, size: number): number {
+  let filled = 0;
+  let cost = 0;
+  for (const level of asks) {
+    if (level.price > limit || filled >= size) break;
+    // Past maxVwap a level only fits until the running VWAP reaches it: (cost + q·p) / (filled + q) = maxVwap.
+    const fits = level.price <= maxVwap ? level.size : Math.max(0, (maxVwap * filled - cost) / (level.price - maxVwap));
+    const take = Math.min(level.size, fits, size - filled);
+    filled += take;
+    cost += take * level.price;
+    if (take < level.size) break;
+  }
+  return filled;
+}
@@ -0,0 +1,66 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { useScratchEnv } from "../testing/scratch";
+
+useScratchEnv({
+  SLOT_TIME_ZONE: "UTC",
+  RISK_DAILY_LOSS_LIMIT_USD: "10",
+  RISK_MAX_OPEN_NOTIONAL_USD: "30",
+  RISK_MAX_OPEN_NOTIONAL_POLY_USD: "20",
+  RISK_MAX_OPEN_NOTIONAL_KALSHI_USD: "15",
+  RISK_MAX_POSITIONS_PER_HOUR: "3",
+  RISK_KILL_SWITCH_FILE: "KILL",
+  RISK_STATE_FILE: "risk.json",
+});
+const { checkEntry, recordEntry, recordExit }: typeof import("./risk-manager") = require("./risk-manager");
+
+const HOUR_MS = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 1, 5, 12);
+const CLOSE = T0 + 15 * 60 * 1000;
+const ref = (ticker: string) => ({ strategy: "test", ticker, conditionId: "0xc" });
+
+// The manager keeps one state per process: the tests run in order and build on each other.
+describe("risk limits", () => {
+  test("cap open notional per venue and in total", () => {
+    assert.equal(checkEntry({ polymarket: 10 }, T0), null);
+    recordEntry(ref("A"), CLOSE, { polymarket: 10 }, T0);
+    assert.match(checkEntry({ polymarket: 11 }, T0) ?? "", /^polymarket open notional \$10\.00 \+ \$11\.00 > max \$20\.00/);
+    assert.match(checkEntry({ kalshi: 16 }, T0) ?? "", /^kalshi open notional/);
+    recordEntry(ref("B"), CLOSE, { kalshi: 10 }, T0);
+    assert.equal(checkEntry({ polymarket: 5, kalshi: 5 }, T0), null);
+    assert.match(checkEntry({ polymarket: 6, kalshi: 5 }, T0) ?? "", /^open notional \$20\.00 \+ \$11\.00 > max \$30\.00/);
+  });
+
+  test("cap new positions per rolling hour; another leg of a position is not a new one", () => {
+    recordEntry(ref("A"), CLOSE, { kalshi: 1 }, T0 + 1000);
+    assert.equal(checkEntry({}, T0 + 1000), null);
+    recordEntry(ref("C"), CLOSE, { polymarket: 1 }, T0 + 1000);
+    assert.match(checkEntry({}, T0 + 1000) ?? "", /^3 positions opened in the last hour/);
+    assert.equal(checkEntry({}, T0 + HOUR_MS), null);
+  });
+
+  test("realized losses stop entries at the daily limit until the next trading day", () => {
+    recordExit(ref("A"), -4, T0 + HOUR_MS);
+    recordExit(ref("B"), -5, T0 + HOUR_MS);
+    recordExit(ref("C"), null, T0 + HOUR_MS);
+    assert.equal(checkEntry({ polymarket: 20 }, T0 + HOUR_MS), null);
+    recordExit(ref("untracked"), -1, T0 + HOUR_MS);
+    assert.match(checkEntry({}, T0 + HOUR_MS) ?? "", /^daily loss limit: realized -\$10\.00 on 2026-02-05/);
+    assert.equal(checkEntry({}, T0 + 24 * HOUR_MS), null);
+  });
+
+  test("exposure never exited is dropped an hour after its market closed", () => {
+    const day2 = T0 + 24 * HOUR_MS;
+    recordEntry(ref("D"), day2, { polymarket: 20 }, day2);
+    assert.match(checkEntry({ polymarket: 1 }, day2 + HOUR_MS - 1) ?? "", /^polymarket open notional/);
+    assert.equal(checkEntry({ polymarket: 1 }, day2 + HOUR_MS), null);
+  });
+
+  test("the kill switch file blocks entries while it exists", () => {
+    fs.writeFileSync("KILL", "");
+    assert.equal(checkEntry({}, T0 + 26 * HOUR_MS), "kill switch file KILL");
+    fs.unlinkSync("KILL");
+    assert.equal(checkEntry({}, T0 + 26 * HOUR_MS), null);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Global risk limits for every strategy and asset of the process, consulted before each entry buy (placePolymarketOrder /
+ * placeOrder): daily realized-loss limit, max open notional per venue and in total, max new positions per rolling hour
+ * and a kill switch. Exits (sells, hedges, unwinds) are never blocked.
+ * The kill switch is on while RISK_KILL_SWITCH_FILE exists, or after SIGUSR2 (toggles; see installKillSwitchSignal).
+ * Today's realized P/L, open exposure, recent entries and the signal switch live in RISK_STATE_FILE, so the limits
+ * carry across restarts.
+ */
+import * as fs from "fs";
+import {
+  RISK_DAILY_LOSS_LIMIT_USD,
+  RISK_MAX_OPEN_NOTIONAL_USD,
+  RISK_MAX_OPEN_NOTIONAL_POLY_USD,
+  RISK_MAX_OPEN_NOTIONAL_KALSHI_USD,
+  RISK_MAX_POSITIONS_PER_HOUR,
+  RISK_KILL_SWITCH_FILE,
+  RISK_STATE_FILE,
+} from "./config";
+import { readJsonFile, stateFilePath, writeJsonFileAtomic } from "./json-file";
+import { appendMonitorLogWithTimestamp } from "./monitor-logger";
+import { tradingDay } from "./slot-schedule";
+
+export type RiskVenue = "polymarket" | "kalshi";
+
+/** Notional (USD at entry) per venue */
+export type VenueNotional = Partial<Record<RiskVenue, number>>;
+
+/** The position an exposure belongs to (same identity as the position store) */
+export interface RiskPositionRef {
+  strategy: string;
+  ticker: string;
+  conditionId: string;
+}
+
+interface OpenExposure extends RiskPositionRef {
+  notional: VenueNotional;
+  /** Market close (UTC ms); exposure never closed by its strategy is dropped STALE_EXPOSURE_MS after it */
+  closeMs: number;
+  openedAt: string;
+}
+
+interface RiskState {
+  /** SLOT_TIME_ZONE date the realized P/L belongs to */
+  day: string;
+  realizedPnlUsd: number;
+  /** Entry times (UTC ms) within the last hour */
+  entries: number[];
+  open: Record<string, OpenExposure>;
+  /** Kill switch set by signal (the file switch is checked on every call) */
+  killSwitch: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const STALE_EXPOSURE_MS = HOUR_MS;
+
+let state: RiskState | null = null;
+
+function log(message: string, level: "log" | "warn" = "log"): void {
+  appendMonitorLogWithTimestamp(message);
+  console[level](message);
+}
+
+function usd(v: number): string {
+  return `${v < 0 ? "-" : ""}$${Math.abs(v).toFixed(2)}`;
+}
+
+function exposureKey(ref: RiskPositionRef): string {
+  return `${ref.strategy}|${ref.ticker}|${ref.conditionId}`;
+}
+
+function load(nowMs: number): RiskState {
+  const empty: RiskState = { day: tradingDay(nowMs), realizedPnlUsd: 0, entries: [], open: {}, killSwitch: false };
+  return { ...empty, ...readJsonFile<Partial<RiskState>>(RISK_STATE_FILE) };
+}
+
+function save(s: RiskState): void {
+  try {
+    writeJsonFileAtomic(RISK_STATE_FILE, s);
+  } catch (e) {
+    console.error("Failed to save risk state:", e);
+  }
+}
+
+/** State as of `nowMs`: a new trading day resets the realized P/L; old entries and abandoned exposure are dropped. */
+function current(nowMs: number): RiskState {
+  if (!state) state = load(nowMs);
+  const s = state;
+  let changed = false;
+  const day = tradingDay(nowMs);
+  if (s.day !== day) {
+    log(`[Risk] New trading day ${day}; ${s.day} realized P/L ${usd(s.realizedPnlUsd)}`);
+    s.day = day;
+    s.realizedPnlUsd = 0;
+    changed = true;
+  }
+  const recent = s.entries.filter((t) => nowMs - t < HOUR_MS);
+  if (recent.length !== s.entries.length) {
+    s.entries = recent;
+    changed = true;
+  }
+  for (const [key, x] of Object.entries(s.open)) {
+    if (nowMs < x.closeMs + STALE_EXPOSURE_MS) continue;
+    log(`[Risk] Dropping exposure ${key} (${describeNotional(x.notional)}): market closed without an exit from ${x.strategy}; P/L unknown`, "warn");
+    delete s.open[key];
+    changed = true;
+  }
+  if (changed) save(s);
+  return s;
+}
+
+function describeNotional(n: VenueNotional): string {
+  return (Object.entries(n) as Array<[RiskVenue, number]>).map(([venue, v]) => `${venue} ${usd(v)}`).join(" + ") || "$0.00";
+}
+
+function openNotional(s: RiskState, venue?: RiskVenue): number {
+  let total = 0;
+  for (const x of Object.values(s.open)) {
+    for (const [v, n] of Object.entries(x.notional) as Array<[RiskVenue, number]>) {
+      if (!venue || v === venue) total += n;
+    }
+  }
+  return total;
+}
+
+/** Why entries are blocked by the kill switch, or null when it is off. */
+export function killSwitchReason(nowMs = Date.now()): string | null {
+  if (RISK_KILL_SWITCH_FILE && fs.existsSync(stateFilePath(RISK_KILL_SWITCH_FILE))) return `kill switch file ${RISK_KILL_SWITCH_FILE}`;
+  if (current(nowMs).killSwitch) return "kill switch (signal)";
+  return null;
+}
+
+/** Null if an entry of this notional (per venue) may be placed, else the limit it would break. */
+export function checkEntry(notional: VenueNotional, nowMs = Date.now()): string | null {
+  const kill = killSwitchReason(nowMs);
+  if (kill) return kill;
+  const s = current(nowMs);
+  if (RISK_DAILY_LOSS_LIMIT_USD > 0 && s.realizedPnlUsd <= -RISK_DAILY_LOSS_LIMIT_USD) {
+    return `daily loss limit: realized ${usd(s.realizedPnlUsd)} on ${s.day} (limit -$${RISK_DAILY_LOSS_LIMIT_USD.toFixed(2)})`;
+  }
+  if (RISK_MAX_POSITIONS_PER_HOUR > 0 && s.entries.length >= RISK_MAX_POSITIONS_PER_HOUR) {
+    return `${s.entries.length} positions opened in the last hour (max ${RISK_MAX_POSITIONS_PER_HOUR})`;
+  }
+  const caps: Record<RiskVenue, number> = { polymarket: RISK_MAX_OPEN_NOTIONAL_POLY_USD, kalshi: RISK_MAX_OPEN_NOTIONAL_KALSHI_USD };
+  let added = 0;
+  for (const [venue, n] of Object.entries(notional) as Array<[RiskVenue, number]>) {
+    added += n;
+    const open = openNotional(s, venue);
+    if (caps[venue] > 0 && open + n > caps[venue]) {
+      return `${venue} open notional ${usd(open)} + ${usd(n)} > max $${caps[venue].toFixed(2)}`;
+    }
+  }
+  const total = openNotional(s);
+  if (RISK_MAX_OPEN_NOTIONAL_USD > 0 && total + added > RISK_MAX_OPEN_NOTIONAL_USD) {
+    return `open notional ${usd(total)} + ${usd(added)} > max $${RISK_MAX_OPEN_NOTIONAL_USD.toFixed(2)}`;
+  }
+  return null;
+}
+
+/** A position (or another leg of it) was bought. A new position counts towards the hourly limit. */
+export function recordEntry(ref: RiskPositionRef, closeMs: number, notional: VenueNotional, nowMs = Date.now()): void {
+  const s = current(nowMs);
+  const key = exposureKey(ref);
+  const existing = s.open[key];
+  if (existing) {
+    for (const [venue, n] of Object.entries(notional) as Array<[RiskVenue, number]>) {
+      existing.notional[venue] = (existing.notional[venue] ?? 0) + n;
+    }
+  } else {
+    s.open[key] = { ...ref, notional: { ...notional }, closeMs, openedAt: new Date(nowMs).toISOString() };
+    s.entries.push(nowMs);
+  }
+  save(s);
+}
+
+/** A position is closed (sold, locked by a hedge or resolved). `pnlUsd` null when the result is not known. */
+export function recordExit(ref: RiskPositionRef, pnlUsd: number | null, nowMs = Date.now()): void {
+  const s = current(nowMs);
+  const key = exposureKey(ref);
+  const had = key in s.open;
+  if (!had && pnlUsd == null) return;
+  delete s.open[key];
+  if (pnlUsd != null) {
+    s.realizedPnlUsd += pnlUsd;
+    log(`[Risk] ${ref.strategy} ${ref.ticker} closed ${usd(pnlUsd)}; realized today ${usd(s.realizedPnlUsd)}, open notional ${usd(openNotional(s))}`);
+  }
+  save(s);
+}
+
+/** One line for the startup log: limits and the state carried over. */
+export function riskSummary(nowMs = Date.now()): string {
+  const s = current(nowMs);
+  const cap = (v: number) => (v > 0 ? `$${v.toFixed(2)}` : "off");
+  const kill = killSwitchReason(nowMs);
+  return (
+    `[Risk] dailyLoss=${cap(RISK_DAILY_LOSS_LIMIT_USD)} openNotional=${cap(RISK_MAX_OPEN_NOTIONAL_USD)} ` +
+    `poly=${cap(RISK_MAX_OPEN_NOTIONAL_POLY_USD)} kalshi=${cap(RISK_MAX_OPEN_NOTIONAL_KALSHI_USD)} perHour=${RISK_MAX_POSITIONS_PER_HOUR || "off"}; ` +
+    `${s.day} realized ${usd(s.realizedPnlUsd)}, open ${Object.keys(s.open).length} (${usd(openNotional(s))}), ` +
+    `${s.entries.length} entries in the last hour${kill ? `; ${kill} ON` : ""}`
+  );
+}
+
+/** SIGUSR2 toggles the kill switch (persisted; the file switch is separate). */
+export function installKillSwitchSignal(): void {
+  process.on("SIGUSR2", () => {
+    const s = current(Date.now());
+    s.killSwitch = !s.killSwitch;
+    save(s);
+    log(`[Risk] Kill switch ${s.killSwitch ? "ON: new entries blocked, exits still run" : "OFF: entries allowed"} (SIGUSR2)`, "warn");
+  });
+}
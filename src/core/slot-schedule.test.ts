@@ -0,0 +1,68 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { useScratchEnv } from "../testing/scratch";
+
+useScratchEnv({ SLOT_TIME_ZONE: "America/New_York", SLOT_DAILY_ANCHOR_HOUR: "12" });
+const slots: typeof import("./slot-schedule") = require("./slot-schedule");
+const { getSlotSchedule, slotStartMs, slotEndMs, minutesIntoSlot, secondsToSlotEnd, tradingDay, polymarketSlugForSlot } = slots;
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+describe("slot boundaries", () => {
+  test("15m", () => {
+    const now = utc("2026-02-05T11:33:20");
+    const m15 = getSlotSchedule("15m");
+    assert.equal(slotStartMs(m15, now), utc("2026-02-05T11:30:00"));
+    assert.equal(slotEndMs(m15, now), utc("2026-02-05T11:45:00"));
+    assert.ok(Math.abs(minutesIntoSlot(m15, now) - 10 / 3) < 1e-9);
+    assert.equal(secondsToSlotEnd(m15, now), 700);
+  });
+
+  test("a boundary instant starts the next slot", () => {
+    const m15 = getSlotSchedule("15m");
+    assert.equal(slotStartMs(m15, utc("2026-02-05T11:45:00")), utc("2026-02-05T11:45:00"));
+  });
+
+  test("4h slots follow the ET wall clock across DST", () => {
+    const h4 = getSlotSchedule("4h");
+    // 09:00 EDT (UTC-4) and 08:00 EST (UTC-5): both in the 08:00-12:00 ET slot.
+    assert.equal(slotStartMs(h4, utc("2026-07-01T13:00:00")), utc("2026-07-01T12:00:00"));
+    assert.equal(slotStartMs(h4, utc("2026-01-15T13:00:00")), utc("2026-01-15T13:00:00"));
+    assert.equal(slotEndMs(h4, utc("2026-01-15T13:00:00")), utc("2026-01-15T17:00:00"));
+  });
+
+  test("daily slots roll at the anchor hour, 23h long on the DST change", () => {
+    const d1 = getSlotSchedule("1d");
+    assert.equal(slotStartMs(d1, utc("2026-07-01T15:00:00")), utc("2026-06-30T16:00:00"));
+    assert.equal(slotEndMs(d1, utc("2026-07-01T15:00:00")), utc("2026-07-01T16:00:00"));
+    // Clocks go forward on 2026-03-08: noon EST to noon EDT.
+    assert.equal(slotStartMs(d1, utc("2026-03-08T10:00:00")), utc("2026-03-07T17:00:00"));
+    assert.equal(slotEndMs(d1, utc("2026-03-08T10:00:00")), utc("2026-03-08T16:00:00"));
+  });
+});
+
+test("tradingDay is the ET calendar date", () => {
+  assert.equal(tradingDay(utc("2026-07-01T03:00:00")), "2026-06-30");
+  assert.equal(tradingDay(utc("2026-07-01T04:00:00")), "2026-07-01");
+});
+
+describe("polymarketSlugForSlot", () => {
+  test("asset and prefix slugs end in the slot start (unix s)", () => {
+    const now = utc("2026-02-05T11:33:20");
+    const start = utc("2026-02-05T11:30:00") / 1000;
+    assert.equal(polymarketSlugForSlot("btc", getSlotSchedule("15m"), now), `btc-updown-15m-${start}`);
+    assert.equal(polymarketSlugForSlot("eth-updown-15m", getSlotSchedule("15m"), now), `eth-updown-15m-${start}`);
+  });
+
+  test("templates fill date tokens from the slot start and end", () => {
+    const now = utc("2026-07-01T13:10:00");
+    assert.equal(
+      polymarketSlugForSlot("bitcoin-up-or-down-{month}-{day}-{hour12}{ampm}-et", getSlotSchedule("1h"), now),
+      "bitcoin-up-or-down-july-1-9am-et"
+    );
+    assert.equal(
+      polymarketSlugForSlot("bitcoin-up-or-down-on-{endMonth}-{endDay}", getSlotSchedule("1d"), now),
+      "bitcoin-up-or-down-on-july-1"
+    );
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Slot schedules for up/down markets: 15m, 1h, 4h and daily windows.
+ * Drives slug/ticker resolution, log bucketing and slot-relative timers.
+ * Boundaries are computed on the SLOT_TIME_ZONE wall clock (default America/New_York), so 4h and daily
+ * slots follow the venues' ET schedule across DST; 15m and 1h slots fall on the same instants in any whole-hour zone.
+ */
+import { SLOT_DAILY_ANCHOR_HOUR, SLOT_TIME_ZONE } from "./config";
+
+export type SlotScheduleName = "15m" | "1h" | "4h" | "1d";
+
+export interface SlotSchedule {
+  name: SlotScheduleName;
+  lengthMs: number;
+  /** Wall-clock offset of the first boundary of the day (e.g. daily slots rolling at 12:00 ET) */
+  anchorMs: number;
+}
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const SLOT_SCHEDULES: Record<SlotScheduleName, SlotSchedule> = {
+  "15m": { name: "15m", lengthMs: 15 * MINUTE_MS, anchorMs: 0 },
+  "1h": { name: "1h", lengthMs: HOUR_MS, anchorMs: 0 },
+  "4h": { name: "4h", lengthMs: 4 * HOUR_MS, anchorMs: 0 },
+  "1d": { name: "1d", lengthMs: 24 * HOUR_MS, anchorMs: SLOT_DAILY_ANCHOR_HOUR * HOUR_MS },
+};
+
+export function getSlotSchedule(name: SlotScheduleName): SlotSchedule {
+  return SLOT_SCHEDULES[name];
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const partsFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: SLOT_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "numeric",
+  minute: "numeric",
+  second: "numeric",
+});
+
+function zonedParts(ms: number): ZonedParts {
+  const out: Record<string, number> = {};
+  for (const part of partsFormatter.formatToParts(new Date(ms))) {
+    if (part.type !== "literal") out[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: out.year,
+    month: out.month,
+    day: out.day,
+    hour: out.hour,
+    minute: out.minute,
+    second: out.second,
+  };
+}
+
+/** SLOT_TIME_ZONE offset from UTC at `ms` (e.g. -4h for EDT). */
+function zoneOffsetMs(ms: number): number {
+  const p = zonedParts(ms);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallAsUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/** Start of the slot containing `nowMs` (UTC ms). */
+export function slotStartMs(schedule: SlotSchedule, nowMs: number): number {
+  const offset = zoneOffsetMs(nowMs);
+  const wall = nowMs + offset;
+  const wallStart = Math.floor((wall - schedule.anchorMs) / schedule.lengthMs) * schedule.lengthMs + schedule.anchorMs;
+  // Re-read the offset at the boundary so a DST change inside the slot does not shift it.
+  return wallStart - zoneOffsetMs(wallStart - offset);
+}
+
+/** End (exclusive) of the slot containing `nowMs` (UTC ms). */
+export function slotEndMs(schedule: SlotSchedule, nowMs: number): number {
+  const start = slotStartMs(schedule, nowMs);
+  return slotStartMs(schedule, start + schedule.lengthMs + MINUTE_MS);
+}
+
+/** Minutes since the current slot started. E.g. 15m slot at 06:33 → 3. */
+export function minutesIntoSlot(schedule: SlotSchedule, nowMs: number): number {
+  return (nowMs - slotStartMs(schedule, nowMs)) / MINUTE_MS;
+}
+
+/** Seconds until the current slot closes. */
+export function secondsToSlotEnd(schedule: SlotSchedule, nowMs: number): number {
+  return Math.max(0, (slotEndMs(schedule, nowMs) - nowMs) / 1000);
+}
+
+/** Calendar date of `ms` on the SLOT_TIME_ZONE wall clock: YYYY-MM-DD (e.g. daily risk limits). */
+export function tradingDay(ms: number): string {
+  const p = zonedParts(ms);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/** Weekday (0 = Sunday) and minute of the day of `ms` on the SLOT_TIME_ZONE wall clock (e.g. trading hours). */
+export function wallClock(ms: number): { weekday: number; minuteOfDay: number } {
+  const p = zonedParts(ms);
+  return { weekday: new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay(), minuteOfDay: p.hour * 60 + p.minute };
+}
+
+/** Log bucket for the slot containing `at`, in local time: YYYY-MM-DD_HH-MM (e.g. 2026-02-05_06-30). */
+export function slotBucket(schedule: SlotSchedule, at: Date): string {
+  const d = new Date(slotStartMs(schedule, at.getTime()));
+  const y = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  const h = String(d.getHours()).padStart(2, "0");
+  const min = String(d.getMinutes()).padStart(2, "0");
+  return `${y}-${month}-${day}_${h}-${min}`;
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+function fillDateTokens(template: string, ms: number, prefix: "" | "end"): string {
+  const p = zonedParts(ms);
+  const key = (name: string) => (prefix ? `{${prefix}${name[0].toUpperCase()}${name.slice(1)}}` : `{${name}}`);
+  const hour12 = p.hour % 12 === 0 ? 12 : p.hour % 12;
+  return template
+    .split(key("year")).join(String(p.year))
+    .split(key("month")).join(MONTHS[p.month - 1])
+    .split(key("day")).join(String(p.day))
+    .split(key("hour")).join(String(p.hour))
+    .split(key("hour12")).join(String(hour12))
+    .split(key("ampm")).join(p.hour < 12 ? "am" : "pm");
+}
+
+/**
+ * Polymarket slug for the slot containing `nowMs`.
+ * `market` is an asset ("btc" → btc-updown-15m-{ts}), a slug prefix ("eth-updown-4h" → eth-updown-4h-{ts})
+ * or a template with tokens: {ts} (slot start, unix s), {year} {month} {day} {hour} {hour12} {ampm} from the
+ * slot start in SLOT_TIME_ZONE, and {endYear} {endMonth} {endDay} ... from the slot end.
+ * E.g. hourly "bitcoin-up-or-down-{month}-{day}-{hour12}{ampm}-et", daily "bitcoin-up-or-down-on-{endMonth}-{endDay}".
+ */
+export function polymarketSlugForSlot(market: string, schedule: SlotSchedule, nowMs: number): string {
+  const start = slotStartMs(schedule, nowMs);
+  let template = market;
+  if (!market.includes("{")) {
+    const prefix = market.includes("-") ? market : `${market}-updown-${schedule.name}`;
+    template = `${prefix}-{ts}`;
+  }
+  const withTs = template.split("{ts}").join(String(Math.floor(start / 1000)));
+  return fillDateTokens(fillDateTokens(withTs, slotEndMs(schedule, nowMs), "end"), start, "");
+}
@@ -0,0 +1,48 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { constantCurve, evalThresholdCurve, formatThresholdCurve, parseThresholdCurve } from "./threshold-curve";
+
+describe("parseThresholdCurve", () => {
+  test("sorts secondsLeft:value pairs from slot open to close", () => {
+    assert.deepEqual(parseThresholdCurve("60:0.92, 900:0.80,300:0.85", 0.5), [[900, 0.8], [300, 0.85], [60, 0.92]]);
+  });
+
+  test("a plain number is a flat curve", () => {
+    assert.deepEqual(parseThresholdCurve("0.75", 0.5), constantCurve(0.75));
+  });
+
+  test("empty or malformed input falls back", () => {
+    assert.deepEqual(parseThresholdCurve(undefined, 0.5), constantCurve(0.5));
+    assert.deepEqual(parseThresholdCurve("  ", 0.5), constantCurve(0.5));
+    assert.deepEqual(parseThresholdCurve("abc", 0.5), constantCurve(0.5));
+    assert.deepEqual(parseThresholdCurve("900:0.8,x:0.9", 0.5), constantCurve(0.5));
+    assert.deepEqual(parseThresholdCurve("-10:0.8", 0.5), constantCurve(0.5));
+  });
+});
+
+describe("evalThresholdCurve", () => {
+  const curve = parseThresholdCurve("900:0.80,300:0.85,60:0.92", 0);
+
+  test("flat beyond the first and last point", () => {
+    assert.equal(evalThresholdCurve(curve, 1200), 0.8);
+    assert.equal(evalThresholdCurve(curve, 900), 0.8);
+    assert.equal(evalThresholdCurve(curve, 30), 0.92);
+    assert.equal(evalThresholdCurve(curve, 0), 0.92);
+  });
+
+  test("linear between points", () => {
+    assert.ok(Math.abs(evalThresholdCurve(curve, 600) - 0.825) < 1e-9);
+    assert.ok(Math.abs(evalThresholdCurve(curve, 180) - 0.885) < 1e-9);
+    assert.equal(evalThresholdCurve(curve, 300), 0.85);
+  });
+
+  test("a flat curve has one value and an empty one none", () => {
+    assert.equal(evalThresholdCurve(constantCurve(0.6), 500), 0.6);
+    assert.ok(Number.isNaN(evalThresholdCurve([], 500)));
+  });
+});
+
+test("formatThresholdCurve", () => {
+  assert.equal(formatThresholdCurve(constantCurve(0.8)), "0.80");
+  assert.equal(formatThresholdCurve(parseThresholdCurve("900:0.8,60:0.92", 0)), "900s:0.80 → 60s:0.92");
+});
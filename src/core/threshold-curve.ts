@@ -0,0 +1,52 @@
+/**
+ * Threshold curves keyed on seconds left in the slot: piecewise-linear between [secondsLeft, value] points,
+ * flat beyond the first and last point. A plain number is a flat curve.
+ * No config / env imports, so the simulation scripts evaluate exactly what the strategy does.
+ */
+
+/** [secondsLeft, value] points, sorted by secondsLeft descending (slot open → close). */
+export type ThresholdCurve = Array<[number, number]>;
+
+export function constantCurve(value: number): ThresholdCurve {
+  return [[0, value]];
+}
+
+/**
+ * Parse "900:0.80,300:0.85,60:0.92" (secondsLeft:value pairs, any order) or a plain number.
+ * Empty or malformed input gives a flat curve at `fallback`.
+ */
+export function parseThresholdCurve(raw: string | undefined, fallback: number): ThresholdCurve {
+  const text = (raw ?? "").trim();
+  if (!text) return constantCurve(fallback);
+  if (!text.includes(":")) {
+    const value = parseFloat(text);
+    return constantCurve(Number.isFinite(value) ? value : fallback);
+  }
+  const points: ThresholdCurve = [];
+  for (const part of text.split(",")) {
+    const [secs, value] = part.split(":").map((x) => parseFloat(x.trim()));
+    if (!Number.isFinite(secs) || !Number.isFinite(value) || secs < 0) return constantCurve(fallback);
+    points.push([secs, value]);
+  }
+  return points.sort((a, b) => b[0] - a[0]);
+}
+
+/** Value of the curve with `secondsLeft` to the slot close. */
+export function evalThresholdCurve(curve: ThresholdCurve, secondsLeft: number): number {
+  if (curve.length === 0) return NaN;
+  if (secondsLeft >= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [s1, v1] = curve[i];
+    if (secondsLeft >= s1) {
+      const [s0, v0] = curve[i - 1];
+      return v1 + ((secondsLeft - s1) / (s0 - s1)) * (v0 - v1);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/** "0.80" for a flat curve, else "900s:0.80 → 60s:0.92". */
+export function formatThresholdCurve(curve: ThresholdCurve): string {
+  if (curve.length === 1) return curve[0][1].toFixed(2);
+  return curve.map(([s, v]) => `${s}s:${v.toFixed(2)}`).join(" → ");
+}
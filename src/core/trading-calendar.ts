@@ -0,0 +1,135 @@
+/**
+ * Trading calendar: when new entries may be placed. Read from TRADING_CALENDAR_FILE (JSON, see trading-calendar.sample.json)
+ * and re-read whenever the file changes, so edits apply without a restart:
+ * - hours: allowed wall-clock ranges per weekday in SLOT_TIME_ZONE, e.g. { "mon": ["09:30-16:00"], "sat": [] }; a weekday
+ *   not listed is open all day, an empty list closes it. Ranges do not cross midnight (split them over two days);
+ * - blackouts: [{ "start", "end", "label" }] with ISO timestamps, e.g. around CPI / FOMC releases;
+ * - noEntryLastSec: no new entries this close to the slot end.
+ * Only entries are gated; prices are still monitored and logged and open positions still exit. A missing file allows
+ * entries at any time; an invalid one keeps the last good calendar.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { TRADING_CALENDAR_FILE } from "./config";
+import { appendMonitorLogWithTimestamp } from "./monitor-logger";
+import { wallClock } from "./slot-schedule";
+
+interface Blackout {
+  startMs: number;
+  endMs: number;
+  label: string;
+}
+
+interface TradingCalendar {
+  /** Allowed [from, to) minute-of-day ranges per weekday (0 = Sunday); a weekday without an entry is open all day */
+  hours: Map<number, Array<[number, number]>>;
+  blackouts: Blackout[];
+  noEntryLastSec: number;
+}
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+/** How often (ms) the file's modification time is checked */
+const RELOAD_CHECK_MS = 1000;
+const ALWAYS_OPEN: TradingCalendar = { hours: new Map(), blackouts: [], noEntryLastSec: 0 };
+
+let calendar = ALWAYS_OPEN;
+/** Modification time of the loaded file; null = no file */
+let loadedMtimeMs: number | null = null;
+let checkedAtMs = -Infinity;
+
+function log(message: string, level: "log" | "warn" = "log"): void {
+  appendMonitorLogWithTimestamp(message);
+  console[level](message);
+}
+
+/** "09:30" → 570 (minutes); "24:00" closes a range at midnight. */
+function parseTime(raw: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(raw.trim());
+  const minutes = match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : NaN;
+  if (!match || parseInt(match[2], 10) >= 60 || !(minutes >= 0 && minutes <= 24 * 60)) throw new Error(`bad time "${raw}"`);
+  return minutes;
+}
+
+function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function formatRanges(ranges: Array<[number, number]>): string {
+  return ranges.length > 0 ? ranges.map(([from, to]) => `${formatTime(from)}-${formatTime(to)}`).join(",") : "closed";
+}
+
+function parseCalendar(raw: unknown): TradingCalendar {
+  if (raw == null || typeof raw !== "object") throw new Error("not a JSON object");
+  const obj = raw as { hours?: Record<string, string[]>; blackouts?: Array<{ start: string; end: string; label?: string }>; noEntryLastSec?: number };
+  const hours = new Map<number, Array<[number, number]>>();
+  for (const [day, ranges] of Object.entries(obj.hours ?? {})) {
+    const weekday = WEEKDAYS.indexOf(day.slice(0, 3).toLowerCase());
+    if (weekday < 0) throw new Error(`unknown weekday "${day}"`);
+    if (!Array.isArray(ranges)) throw new Error(`hours.${day} is not a list`);
+    hours.set(
+      weekday,
+      ranges.map((range): [number, number] => {
+        const [from, to] = String(range).split("-").map(parseTime);
+        if (to == null || !(from < to)) throw new Error(`bad range "${range}" for ${day} (use HH:MM-HH:MM within one day)`);
+        return [from, to];
+      })
+    );
+  }
+  const blackouts = (obj.blackouts ?? []).map((b, i) => {
+    const startMs = Date.parse(b.start);
+    const endMs = Date.parse(b.end);
+    if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || !(startMs < endMs)) throw new Error(`bad blackout #${i + 1} (${b.start} → ${b.end})`);
+    return { startMs, endMs, label: b.label ?? `#${i + 1}` };
+  });
+  const noEntryLastSec = Math.max(0, Number(obj.noEntryLastSec ?? 0) || 0);
+  return { hours, blackouts, noEntryLastSec };
+}
+
+function describe(c: TradingCalendar, nowMs: number): string {
+  const hours = [...c.hours.entries()].sort(([a], [b]) => a - b).map(([day, ranges]) => `${WEEKDAYS[day]} ${formatRanges(ranges)}`);
+  const upcoming = c.blackouts.filter((b) => b.endMs > nowMs).length;
+  return `hours ${hours.length > 0 ? hours.join("; ") : "any"}, ${upcoming} upcoming blackout(s), noEntryLastSec=${c.noEntryLastSec}`;
+}
+
+/** Re-read the file when its modification time changed (checked at most every RELOAD_CHECK_MS). */
+function refresh(nowMs: number): void {
+  if (nowMs - checkedAtMs < RELOAD_CHECK_MS) return;
+  checkedAtMs = nowMs;
+  const file = path.resolve(process.cwd(), TRADING_CALENDAR_FILE);
+  let mtimeMs: number | null = null;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    mtimeMs = null;
+  }
+  if (mtimeMs === loadedMtimeMs) return;
+  loadedMtimeMs = mtimeMs;
+  if (mtimeMs == null) {
+    if (calendar !== ALWAYS_OPEN) log(`[Calendar] ${TRADING_CALENDAR_FILE} removed; entries allowed at any time`);
+    calendar = ALWAYS_OPEN;
+    return;
+  }
+  try {
+    calendar = parseCalendar(JSON.parse(fs.readFileSync(file, "utf-8")));
+    log(`[Calendar] Loaded ${TRADING_CALENDAR_FILE}: ${describe(calendar, nowMs)}`);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    log(`[Calendar] Invalid ${TRADING_CALENDAR_FILE}, keeping the previous calendar: ${msg}`, "warn");
+  }
+}
+
+/** Why no new entry may be placed now on a market closing at `closeMs`, or null when the calendar allows it. */
+export function calendarEntryBlock(nowMs: number, closeMs: number): string | null {
+  refresh(nowMs);
+  const c = calendar;
+  const blackout = c.blackouts.find((b) => nowMs >= b.startMs && nowMs < b.endMs);
+  if (blackout) return `blackout ${blackout.label} until ${new Date(blackout.endMs).toISOString()}`;
+  const { weekday, minuteOfDay } = wallClock(nowMs);
+  const ranges = c.hours.get(weekday);
+  if (ranges && !ranges.some(([from, to]) => minuteOfDay >= from && minuteOfDay < to)) {
+    return `outside trading hours (${WEEKDAYS[weekday]} ${formatRanges(ranges)})`;
+  }
+  if (c.noEntryLastSec > 0 && closeMs - nowMs < c.noEntryLastSec * 1000) return `last ${c.noEntryLastSec}s of the slot`;
+  return null;
+}
+
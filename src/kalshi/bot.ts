@@ -52,11 +52,64 @@ export async function getKalshiBalanceCents(): Promise<number> {
   return res.data.balance ?? 0;
 }
 
+/** Contracts held on a market: positive = YES, negative = NO (Kalshi's convention). Null if the lookup failed. */
+export async function getKalshiPosition(ticker: string): Promise<number | null> {
+  try {
+    const portfolioApi = new PortfolioApi(buildConfiguration());
+    const res = await portfolioApi.getPositions(undefined, undefined, undefined, ticker);
+    const position = res.data.market_positions?.find((p) => p.ticker === ticker);
+    return position?.position ?? 0;
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    appendMonitorLogWithTimestamp(`Position lookup failed for ${ticker}: ${msg}`);
+    return null;
+  }
+}
+
+/** Resting (not yet filled) orders on a market. Null if the lookup failed. */
+export async function getKalshiRestingOrders(
+  ticker: string
+): Promise<Array<{ orderId: string; side: "yes" | "no"; action: "buy" | "sell"; remainingCount: number }> | null> {
+  try {
+    const res = await getOrdersApi().getOrders(ticker, undefined, undefined, undefined, "resting");
+    return (res.data.orders ?? []).map((o) => ({
+      orderId: o.order_id,
+      side: o.side as "yes" | "no",
+      action: o.action as "buy" | "sell",
+      remainingCount: o.remaining_count,
+    }));
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    appendMonitorLogWithTimestamp(`Open orders lookup failed for ${ticker}: ${msg}`);
+    return null;
+  }
+}
+
+/** Cancel what is left of a resting order. False if the request failed (e.g. the order already filled or was cancelled). */
+export async function cancelKalshiOrder(orderId: string): Promise<boolean> {
+  try {
+    await getOrdersApi().cancelOrder(orderId);
+    const msg = `Order cancelled: ${orderId}`;
+    console.log(msg);
+    appendMonitorLogWithTimestamp(msg);
+    return true;
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    appendMonitorLogWithTimestamp(`Cancel failed for ${orderId}: ${msg}`);
+    return false;
+  }
+}
+
 /** Fetch open Bitcoin 15m up/down markets, up to BOT_MAX_MARKETS. */
 export async function getBitcoinUpDownMarkets(): Promise<Market[]> {
-  const msg = " =================== Refreshing markets =================== ";
+  return getUpDownMarkets(BTC_SERIES_TICKER);
+}
+
+/** Fetch open up/down markets for a Kalshi series (e.g. KXETH15M), up to BOT_MAX_MARKETS. */
+export async function getUpDownMarkets(seriesTicker: string, logStream?: string): Promise<Market[]> {
+  const msg = ` =================== Refreshing markets (${seriesTicker}) =================== `;
   console.log(msg);
-  appendMonitorLogWithTimestamp(msg);
+  appendMonitorLogWithTimestamp(msg, logStream);
   const conf = buildConfiguration();
   const marketApi = new MarketApi(conf);
   const all: Market[] = [];
@@ -67,7 +120,7 @@ export async function getBitcoinUpDownMarkets(): Promise<Market[]> {
       200,
       cursor,
       undefined,
-      BTC_SERIES_TICKER,
+      seriesTicker,
       undefined,
       undefined,
       undefined,
@@ -88,20 +141,25 @@ export async function getBitcoinUpDownMarkets(): Promise<Market[]> {
   return all.slice(0, BOT_MAX_MARKETS);
 }
 
-/** Place a single limit buy order (yes or no) on a market. */
+/**
+ * Place a single limit buy order (yes or no) on a market. GTC by default; "immediate_or_cancel" fills what it can now and
+ * cancels the rest, so nothing is left resting. `filledCount` is what filled at placement (a GTC remainder may fill later);
+ * `avgPriceCents` is their average fill price before fees (the limit price when nothing filled or in a dry run).
+ */
 export async function placeOrder(
   ticker: string,
   side: "yes" | "no",
   count: number,
   priceCents: number,
-  options?: { arbLive?: boolean }
-): Promise<{ orderId: string } | { error: string }> {
+  options?: { arbLive?: boolean; timeInForce?: "good_till_canceled" | "immediate_or_cancel" }
+): Promise<{ orderId: string; filledCount: number; avgPriceCents: number } | { error: string }> {
   const dryRun = options?.arbLive ? false : BOT_DRY_RUN;
+  const timeInForce = options?.timeInForce ?? "good_till_canceled";
   if (dryRun) {
     const msg = `[DRY RUN] Would place: ticker=${ticker} side=${side} count=${count} yes_price=${priceCents} (no_price for no)`;
     console.log(msg);
     appendMonitorLogWithTimestamp(msg);
-    return { orderId: "dry-run" };
+    return { orderId: "dry-run", filledCount: count, avgPriceCents: priceCents };
   }
   const ordersApi = getOrdersApi();
   const price = Math.max(1, Math.min(99, priceCents));
@@ -112,15 +170,18 @@ export async function placeOrder(
       action: "buy",
       count,
       type: "limit",
-      time_in_force: "good_till_canceled",
+      time_in_force: timeInForce,
       ...(side === "yes" ? { yes_price: price } : { no_price: price }),
     });
     const order = res.data.order;
     const orderId = order?.order_id ?? "unknown";
-    const msg = `Order placed: ${orderId} ticker=${ticker} side=${side} count=${count} price=${price}c`;
+    const filledCount = order?.fill_count ?? 0;
+    const fillCostCents = (order?.taker_fill_cost ?? 0) + (order?.maker_fill_cost ?? 0);
+    const avgPriceCents = filledCount > 0 && fillCostCents > 0 ? fillCostCents / filledCount : price;
+    const msg = `Order placed: ${orderId} ticker=${ticker} side=${side} count=${count} price=${price}c ${timeInForce === "immediate_or_cancel" ? "IOC" : "GTC"} filled=${filledCount}${filledCount > 0 ? ` avg=${avgPriceCents.toFixed(1)}c` : ""}`;
     console.log(msg);
     appendMonitorLogWithTimestamp(msg);
-    return { orderId };
+    return { orderId, filledCount, avgPriceCents };
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
     console.error(`Order failed for ${ticker}:`, msg);
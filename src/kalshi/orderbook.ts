@@ -0,0 +1,67 @@
+/**
+ * Kalshi order book → MarketPrices.
+ * Kalshi only publishes bids: YES bids and NO bids (cents). A YES ask at p is a NO bid at 100 - p and vice versa.
+ */
+import type { QuoteTiming } from "../core/feed-health";
+import { topLevels, type BookDepth } from "../core/order-book";
+import type { MarketPrices } from "../monitor/dual-monitor";
+
+/** Parse [[cents, qty]] or (newer API) [["0.45", qty]] levels into a cents → qty map. */
+export function parseKalshiLevels(cents: unknown, dollars: unknown): Map<number, number> {
+  const book = new Map<number, number>();
+  const rows = Array.isArray(cents) ? cents : Array.isArray(dollars) ? dollars : [];
+  const inDollars = !Array.isArray(cents);
+  for (const row of rows) {
+    if (!Array.isArray(row) || row.length < 2) continue;
+    const raw = typeof row[0] === "string" ? parseFloat(row[0]) : Number(row[0]);
+    const price = inDollars ? Math.round(raw * 100) : Math.round(raw);
+    const qty = Number(row[1]);
+    if (Number.isFinite(price) && Number.isFinite(qty) && qty > 0) book.set(price, qty);
+  }
+  return book;
+}
+
+function complement(bids: Map<number, number>): Map<number, number> {
+  const asks = new Map<number, number>();
+  for (const [price, qty] of bids) asks.set(100 - price, qty);
+  return asks;
+}
+
+/**
+ * Build MarketPrices from YES/NO bid maps. With no bids on the opposite side the ask is pinned at 100 (size 0),
+ * which is what the Method 1 trigger (ask >= 1.00) relies on.
+ */
+export function buildKalshiPrices(
+  ticker: string,
+  yesBids: Map<number, number>,
+  noBids: Map<number, number>,
+  lastPriceCents: number,
+  depth: number,
+  timing: Partial<Omit<QuoteTiming, "fetchedAt">> = {}
+): MarketPrices {
+  const upBook: BookDepth = {
+    bids: topLevels(yesBids, "bid", depth),
+    asks: topLevels(complement(noBids), "ask", depth),
+  };
+  const downBook: BookDepth = {
+    bids: topLevels(noBids, "bid", depth),
+    asks: topLevels(complement(yesBids), "ask", depth),
+  };
+  return {
+    ticker,
+    upAskCents: upBook.asks[0]?.price ?? 100,
+    downAskCents: downBook.asks[0]?.price ?? 100,
+    upBidCents: upBook.bids[0]?.price ?? 0,
+    downBidCents: downBook.bids[0]?.price ?? 0,
+    upAskSize: upBook.asks[0]?.size ?? 0,
+    downAskSize: downBook.asks[0]?.size ?? 0,
+    upBidSize: upBook.bids[0]?.size ?? 0,
+    downBidSize: downBook.bids[0]?.size ?? 0,
+    lastPriceCents,
+    upBook,
+    downBook,
+    requestedAt: timing.requestedAt ?? null,
+    exchangeAt: timing.exchangeAt ?? null,
+    fetchedAt: new Date(),
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * Kalshi WebSocket feed: orderbook_delta + ticker channels for one market.
+ * Keeps a local book (YES bids / NO bids in cents) and pushes MarketPrices on every change.
+ * Reconnects with backoff; a sequence gap or reconnect resubscribes to get a fresh snapshot.
+ */
+import * as crypto from "crypto";
+import * as fs from "fs";
+import WebSocket from "ws";
+import { config, MONITOR_BOOK_DEPTH } from "../core/config";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import type { MarketPrices } from "../monitor/dual-monitor";
+import { buildKalshiPrices, parseKalshiLevels } from "./orderbook";
+
+const RECONNECT_MIN_MS = 500;
+const RECONNECT_MAX_MS = 10_000;
+
+export interface KalshiOrderbookStream {
+  /** Switch to another market (ticker rollover): unsubscribes the old one and waits for a new snapshot. */
+  setTicker(ticker: string): void;
+  /** True when the socket is open and a snapshot for the current ticker has been applied. */
+  isLive(): boolean;
+  /** Latest prices from the local book, or null if not live. */
+  getPrices(): MarketPrices | null;
+  close(): void;
+}
+
+interface KalshiWsMessage {
+  type?: string;
+  id?: number;
+  sid?: number;
+  seq?: number;
+  msg?: Record<string, unknown>;
+}
+
+function log(message: string, stream?: string): void {
+  console.log(stream ? `[${stream}] ${message}` : message);
+  appendMonitorLogWithTimestamp(message, stream);
+}
+
+/** Kalshi sends ts as unix seconds (ticker) or an ISO string (orderbook messages). */
+function parseMessageTs(raw: unknown): Date | null {
+  if (typeof raw === "number" && Number.isFinite(raw)) return new Date(raw < 1e12 ? raw * 1000 : raw);
+  if (typeof raw === "string") {
+    const ms = Date.parse(raw);
+    return Number.isFinite(ms) ? new Date(ms) : null;
+  }
+  return null;
+}
+
+function loadPrivateKeyPem(): string {
+  if (config.privateKeyPath) return fs.readFileSync(config.privateKeyPath, "utf8");
+  return config.privateKeyPem;
+}
+
+/** Same RSA-PSS signature the REST client uses: sign(timestamp + "GET" + path). */
+function buildAuthHeaders(): Record<string, string> {
+  const timestamp = Date.now().toString();
+  const path = new URL(config.wsUrl).pathname;
+  const signature = crypto
+    .sign("sha256", Buffer.from(timestamp + "GET" + path), {
+      key: loadPrivateKeyPem(),
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+    })
+    .toString("base64");
+  return {
+    "KALSHI-ACCESS-KEY": config.apiKey,
+    "KALSHI-ACCESS-SIGNATURE": signature,
+    "KALSHI-ACCESS-TIMESTAMP": timestamp,
+  };
+}
+
+export function startKalshiOrderbookStream(options: {
+  ticker: string;
+  onPrices: (prices: MarketPrices) => void;
+  /** Asset log stream (see assetLogStream) */
+  logStream?: string;
+  onStatus?: (live: boolean) => void;
+}): KalshiOrderbookStream {
+  let ticker = options.ticker;
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let reconnectDelayMs = RECONNECT_MIN_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let nextCmdId = 1;
+  let live = false;
+
+  let yesBids = new Map<number, number>();
+  let noBids = new Map<number, number>();
+  let lastPriceCents = 0;
+  /** Exchange time of the last applied message (msg.ts), if Kalshi sent one */
+  let exchangeAt: Date | null = null;
+  let bookSid: number | null = null;
+  let bookSeq = 0;
+  const sids = new Set<number>();
+
+  const setLive = (value: boolean) => {
+    if (live === value) return;
+    live = value;
+    options.onStatus?.(value);
+  };
+
+  const buildPrices = (): MarketPrices =>
+    buildKalshiPrices(ticker, yesBids, noBids, lastPriceCents, MONITOR_BOOK_DEPTH, { exchangeAt });
+
+  const send = (payload: Record<string, unknown>) => {
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(payload));
+  };
+
+  const subscribe = () => {
+    yesBids = new Map();
+    noBids = new Map();
+    lastPriceCents = 0;
+    exchangeAt = null;
+    bookSid = null;
+    bookSeq = 0;
+    setLive(false);
+    send({
+      id: nextCmdId++,
+      cmd: "subscribe",
+      params: { channels: ["orderbook_delta", "ticker"], market_tickers: [ticker] },
+    });
+  };
+
+  const unsubscribeAll = () => {
+    if (sids.size > 0) {
+      send({ id: nextCmdId++, cmd: "unsubscribe", params: { sids: [...sids] } });
+      sids.clear();
+    }
+  };
+
+  const resync = (reason: string) => {
+    log(`[Kalshi WS] Resync ${ticker}: ${reason}`, options.logStream);
+    unsubscribeAll();
+    subscribe();
+  };
+
+  const handleMessage = (data: KalshiWsMessage) => {
+    const msg = data.msg ?? {};
+    const msgTicker = typeof msg.market_ticker === "string" ? msg.market_ticker : undefined;
+    if (msgTicker && msgTicker !== ticker) return;
+    const ts = parseMessageTs(msg.ts);
+    if (ts) exchangeAt = ts;
+    switch (data.type) {
+      case "subscribed":
+        if (typeof msg.sid === "number") sids.add(msg.sid);
+        return;
+      case "orderbook_snapshot":
+        yesBids = parseKalshiLevels(msg.yes, msg.yes_dollars);
+        noBids = parseKalshiLevels(msg.no, msg.no_dollars);
+        bookSid = data.sid ?? null;
+        bookSeq = data.seq ?? 0;
+        setLive(true);
+        options.onPrices(buildPrices());
+        return;
+      case "orderbook_delta": {
+        if (bookSid == null || data.sid !== bookSid) return;
+        if (data.seq != null) {
+          if (data.seq !== bookSeq + 1) {
+            resync(`sequence gap (expected ${bookSeq + 1}, got ${data.seq})`);
+            return;
+          }
+          bookSeq = data.seq;
+        }
+        const price =
+          typeof msg.price === "number"
+            ? msg.price
+            : Math.round(parseFloat(String(msg.price_dollars ?? "")) * 100);
+        const delta = Number(msg.delta);
+        if (!Number.isFinite(price) || !Number.isFinite(delta)) return;
+        const book = msg.side === "no" ? noBids : yesBids;
+        const qty = (book.get(price) ?? 0) + delta;
+        if (qty > 0) book.set(price, qty);
+        else book.delete(price);
+        options.onPrices(buildPrices());
+        return;
+      }
+      case "ticker": {
+        const price =
+          typeof msg.price === "number"
+            ? msg.price
+            : Math.round(parseFloat(String(msg.price_dollars ?? "")) * 100);
+        if (Number.isFinite(price)) lastPriceCents = price;
+        if (live) options.onPrices(buildPrices());
+        return;
+      }
+      case "error":
+        log(`[Kalshi WS] Error: ${JSON.stringify(msg)}`, options.logStream);
+        return;
+      default:
+        return;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer != null) return;
+    const delay = reconnectDelayMs;
+    reconnectDelayMs = Math.min(RECONNECT_MAX_MS, reconnectDelayMs * 2);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(config.wsUrl, { headers: buildAuthHeaders() });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      log(`[Kalshi WS] Connect failed: ${msg}`, options.logStream);
+      scheduleReconnect();
+      return;
+    }
+    ws = socket;
+    socket.on("open", () => {
+      reconnectDelayMs = RECONNECT_MIN_MS;
+      sids.clear();
+      log(`[Kalshi WS] Connected; subscribing ${ticker}`, options.logStream);
+      subscribe();
+    });
+    socket.on("message", (raw) => {
+      try {
+        handleMessage(JSON.parse(raw.toString()) as KalshiWsMessage);
+      } catch {
+        // ignore malformed frames
+      }
+    });
+    socket.on("error", (err) => {
+      log(`[Kalshi WS] Socket error: ${err.message}`, options.logStream);
+    });
+    socket.on("close", () => {
+      if (ws !== socket) return;
+      ws = null;
+      sids.clear();
+      setLive(false);
+      if (!closed) {
+        log(`[Kalshi WS] Disconnected; reconnecting in ${reconnectDelayMs}ms (polling fallback active)`, options.logStream);
+        scheduleReconnect();
+      }
+    });
+  };
+
+  connect();
+
+  return {
+    setTicker(next: string) {
+      if (next === ticker) return;
+      log(`[Kalshi WS] Ticker rollover ${ticker} → ${next}`, options.logStream);
+      unsubscribeAll();
+      ticker = next;
+      subscribe();
+    },
+    isLive() {
+      return live && ws != null && ws.readyState === WebSocket.OPEN;
+    },
+    getPrices() {
+      return this.isLive() ? buildPrices() : null;
+    },
+    close() {
+      closed = true;
+      if (reconnectTimer != null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      setLive(false);
+      ws?.close();
+      ws = null;
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Balance guard for the whole process: polls the Kalshi and Polymarket balances every BALANCE_GUARD_INTERVAL_MS.
+ * Entries pause while either is below MIN_BALANCE_USD and resume once both are back above it. Every buy is checked
+ * against the last known balance of its venue, less what buys spent since that poll (recordSpend).
+ * An unknown balance (venue not configured, or no successful poll yet) blocks nothing.
+ */
+import { getKalshiBalanceCents } from "../kalshi/bot";
+import { getPolymarketBalanceUsd } from "../polymarket/order";
+import { BALANCE_GUARD_INTERVAL_MS, MIN_BALANCE_USD } from "../core/config";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import type { RiskVenue, VenueNotional } from "../core/risk-manager";
+
+/** Last known balance (USD) per venue; null = unknown */
+export type VenueBalances = Record<RiskVenue, number | null>;
+
+const VENUE_LABEL: Record<RiskVenue, string> = { kalshi: "Kalshi", polymarket: "Polymarket" };
+
+const balances: VenueBalances = { kalshi: null, polymarket: null };
+let pausedReason: string | null = null;
+
+function log(message: string, level: "log" | "warn" = "log"): void {
+  appendMonitorLogWithTimestamp(message);
+  console[level](message);
+}
+
+function describeBalances(): string {
+  return (Object.keys(balances) as RiskVenue[])
+    .map((venue) => `${VENUE_LABEL[venue]} ${balances[venue] == null ? "unknown" : `$${balances[venue]!.toFixed(2)}`}`)
+    .join(", ");
+}
+
+/** Pause entries while a known balance is below MIN_BALANCE_USD; log each change. */
+function updatePause(): void {
+  const low = (Object.keys(balances) as RiskVenue[]).filter((venue) => balances[venue] != null && balances[venue]! < MIN_BALANCE_USD);
+  const reason = low.length > 0
+    ? `${low.map((venue) => `${VENUE_LABEL[venue]} $${balances[venue]!.toFixed(2)}`).join(", ")} below minimum $${MIN_BALANCE_USD.toFixed(2)}`
+    : null;
+  if (reason === pausedReason) return;
+  if (reason) log(`[Balance] Entries paused: ${reason}`, "warn");
+  else log(`[Balance] Entries resumed: ${describeBalances()}`);
+  pausedReason = reason;
+}
+
+/** Poll both venues; a failed poll keeps the venue's last known balance. */
+export async function refreshBalances(): Promise<VenueBalances> {
+  const [kalshi, polymarket] = await Promise.all([
+    getKalshiBalanceCents().then(
+      (cents) => cents / 100,
+      (err: unknown) => {
+        appendMonitorLogWithTimestamp(`[Balance] Kalshi balance poll failed: ${err instanceof Error ? err.message : String(err)}`);
+        return null;
+      }
+    ),
+    getPolymarketBalanceUsd(),
+  ]);
+  if (kalshi != null) balances.kalshi = kalshi;
+  if (polymarket != null) balances.polymarket = polymarket;
+  updatePause();
+  return { ...balances };
+}
+
+/** Poll now and every BALANCE_GUARD_INTERVAL_MS; returns a stop function. */
+export function startBalanceGuard(): () => void {
+  const poll = () => {
+    refreshBalances().catch(() => {});
+  };
+  poll();
+  const timer = setInterval(poll, BALANCE_GUARD_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/** Null if the order notional (per venue) fits the known balances, else which one it exceeds. */
+export function checkAffordable(notional: VenueNotional): string | null {
+  for (const [venue, usd] of Object.entries(notional) as Array<[RiskVenue, number]>) {
+    const balance = balances[venue];
+    if (balance != null && usd > balance) {
+      return `${VENUE_LABEL[venue]} balance $${balance.toFixed(2)} < order $${usd.toFixed(2)}`;
+    }
+  }
+  return null;
+}
+
+/** Null if an entry of this notional may go in: entries are not paused and the order is affordable. */
+export function checkBalanceForEntry(notional: VenueNotional): string | null {
+  if (pausedReason) return `entries paused (${pausedReason})`;
+  return checkAffordable(notional);
+}
+
+/** A buy went in: take its notional off the venue's known balance until the next poll. */
+export function recordSpend(venue: RiskVenue, usd: number): void {
+  const balance = balances[venue];
+  if (balance == null) return;
+  balances[venue] = Math.max(0, balance - usd);
+  updatePause();
+}
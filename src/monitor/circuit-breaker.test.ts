@@ -0,0 +1,107 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { useScratchEnv } from "../testing/scratch";
+
+useScratchEnv({
+  BREAKER_MAX_ORDER_FAILURES: "3",
+  BREAKER_MAX_LOSSES: "2",
+  BREAKER_ERROR_RATE: "0.5",
+  BREAKER_ERROR_WINDOW_MS: "60000",
+  BREAKER_ERROR_MIN_ORDERS: "4",
+  BREAKER_COOLDOWN_MS: "1000",
+  BREAKER_PROBE_SIZE: "2",
+  BREAKER_STATE_FILE: "breakers.json",
+});
+const { createCircuitBreaker }: typeof import("./circuit-breaker") = require("./circuit-breaker");
+
+const T0 = Date.UTC(2026, 1, 5, 12);
+
+/** A breaker opened by consecutive order failures at T0. */
+function openedBreaker(name: string) {
+  const breaker = createCircuitBreaker(name);
+  for (let i = 0; i < 3; i++) breaker.recordOrder(false, true, "rejected", T0);
+  return breaker;
+}
+
+describe("circuit breaker", () => {
+  test("closed breakers allow entries at full size", () => {
+    const breaker = createCircuitBreaker("closed");
+    assert.deepEqual(breaker.gate(T0), { allowed: true, probeSize: null });
+    assert.equal(breaker.state(T0), "closed");
+  });
+
+  test("consecutive failed orders open it; an ok order resets the count", () => {
+    const breaker = createCircuitBreaker("failures");
+    breaker.recordOrder(false, true, "rejected", T0);
+    breaker.recordOrder(false, true, "rejected", T0);
+    for (let i = 0; i < 4; i++) breaker.recordOrder(true, true, undefined, T0);
+    breaker.recordOrder(false, true, "rejected", T0);
+    assert.equal(breaker.state(T0), "closed");
+    const opened = openedBreaker("failures-open");
+    assert.equal(opened.state(T0), "open");
+    const gate = opened.gate(T0);
+    assert.equal(gate.allowed, false);
+    assert.match(gate.allowed ? "" : gate.reason, /3 consecutive failed orders/);
+  });
+
+  test("half-opens after the cool-down with the probe size", () => {
+    const breaker = openedBreaker("half-open");
+    assert.equal(breaker.state(T0 + 999), "open");
+    assert.deepEqual(breaker.gate(T0 + 1000), { allowed: true, probeSize: 2 });
+    assert.equal(breaker.state(T0 + 1000), "half-open");
+  });
+
+  test("a probe entry that goes in closes it; exits do not", () => {
+    const breaker = openedBreaker("probe-ok");
+    breaker.recordOrder(true, false, undefined, T0 + 1000);
+    assert.equal(breaker.state(T0 + 1000), "half-open");
+    breaker.recordOrder(true, true, undefined, T0 + 1000);
+    assert.equal(breaker.state(T0 + 1000), "closed");
+  });
+
+  test("a failed probe or a losing cycle while half-open opens it again", () => {
+    const failed = openedBreaker("probe-failed");
+    failed.recordOrder(false, true, "rejected", T0 + 1000);
+    assert.equal(failed.state(T0 + 1000), "open");
+    assert.equal(failed.state(T0 + 1999), "open");
+    const lost = openedBreaker("probe-lost");
+    lost.recordCycle(false, T0 + 1000);
+    assert.equal(lost.state(T0 + 1000), "open");
+  });
+
+  test("losing cycles in a row open it; a win resets the streak", () => {
+    const breaker = createCircuitBreaker("losses");
+    breaker.recordCycle(false, T0);
+    breaker.recordCycle(true, T0);
+    breaker.recordCycle(false, T0);
+    assert.equal(breaker.state(T0), "closed");
+    breaker.recordCycle(false, T0);
+    assert.equal(breaker.state(T0), "open");
+  });
+
+  test("an error-rate spike in the window opens it", () => {
+    const breaker = createCircuitBreaker("error-rate");
+    breaker.recordOrder(true, true, undefined, T0);
+    breaker.recordOrder(false, true, "rejected", T0);
+    breaker.recordOrder(true, true, undefined, T0);
+    assert.equal(breaker.state(T0), "closed");
+    breaker.recordOrder(false, true, "rejected", T0);
+    assert.equal(breaker.state(T0), "open");
+  });
+
+  test("orders outside the window do not count towards the error rate", () => {
+    const breaker = createCircuitBreaker("error-window");
+    breaker.recordOrder(false, true, "rejected", T0);
+    breaker.recordOrder(true, true, undefined, T0);
+    breaker.recordOrder(false, true, "rejected", T0);
+    breaker.recordOrder(true, true, undefined, T0 + 60_000);
+    breaker.recordOrder(false, true, "rejected", T0 + 60_000);
+    assert.equal(breaker.state(T0 + 60_000), "closed");
+  });
+
+  test("the state survives a restart", () => {
+    openedBreaker("persisted");
+    assert.equal(createCircuitBreaker("persisted").state(T0), "open");
+    assert.equal(createCircuitBreaker("persisted").state(T0 + 1000), "half-open");
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Circuit breaker per strategy and venue: opens after BREAKER_MAX_ORDER_FAILURES consecutive failed orders,
+ * BREAKER_MAX_LOSSES consecutive losing cycles, or a failed share of at least BREAKER_ERROR_RATE among the orders of the
+ * last BREAKER_ERROR_WINDOW_MS. While open, entries on the venue are paused; after BREAKER_COOLDOWN_MS it half-opens and
+ * entries go in at BREAKER_PROBE_SIZE (callers raise it to the venue's minimum order). A filled probe closes it, a failed
+ * order or a losing cycle opens it again. Orders refused locally, before reaching the venue, are not recorded here.
+ * Exits are never blocked (callers may back off between sells). States live in BREAKER_STATE_FILE across restarts.
+ */
+import {
+  BREAKER_MAX_ORDER_FAILURES,
+  BREAKER_MAX_LOSSES,
+  BREAKER_ERROR_RATE,
+  BREAKER_ERROR_WINDOW_MS,
+  BREAKER_ERROR_MIN_ORDERS,
+  BREAKER_COOLDOWN_MS,
+  BREAKER_PROBE_SIZE,
+  BREAKER_STATE_FILE,
+} from "../core/config";
+import { readJsonFile, writeJsonFileAtomic } from "../core/json-file";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+/** Entry gate: blocked with the reason, or allowed (capped at `probeSize` while half-open). */
+export type BreakerGate = { allowed: true; probeSize: number | null } | { allowed: false; reason: string };
+
+export interface CircuitBreaker {
+  gate(nowMs?: number): BreakerGate;
+  /** An order went in (ok) or was rejected; `entry` marks buys that open a position (a filled probe closes the breaker). */
+  recordOrder(ok: boolean, entry: boolean, error?: string, nowMs?: number): void;
+  /** A finished cycle of a position on this venue */
+  recordCycle(won: boolean, nowMs?: number): void;
+  state(nowMs?: number): BreakerState;
+  /** Short state for logs, e.g. "open 312s (3 consecutive losing cycles)" */
+  describe(nowMs?: number): string;
+}
+
+interface BreakerRecord {
+  state: BreakerState;
+  reason: string | null;
+  /** When an open breaker half-opens (UTC ms) */
+  reopenAtMs: number;
+  orderFailures: number;
+  losses: number;
+  /** Order results in the error-rate window: [UTC ms, ok] */
+  recent: Array<[number, boolean]>;
+}
+
+function log(message: string, level: "log" | "warn" = "log"): void {
+  appendMonitorLogWithTimestamp(message);
+  console[level](message);
+}
+
+function loadRecords(): Record<string, BreakerRecord> {
+  return readJsonFile<Record<string, BreakerRecord>>(BREAKER_STATE_FILE) ?? {};
+}
+
+function saveRecord(name: string, record: BreakerRecord): void {
+  try {
+    writeJsonFileAtomic(BREAKER_STATE_FILE, { ...loadRecords(), [name]: record });
+  } catch (e) {
+    console.error("Failed to save circuit breaker state:", e);
+  }
+}
+
+/** A breaker named e.g. "kalshi-1-poly/polymarket"; picks up the state saved under that name. */
+export function createCircuitBreaker(name: string): CircuitBreaker {
+  const saved = loadRecords()[name];
+  const r: BreakerRecord = {
+    state: saved?.state ?? "closed",
+    reason: saved?.reason ?? null,
+    reopenAtMs: saved?.reopenAtMs ?? 0,
+    orderFailures: saved?.orderFailures ?? 0,
+    losses: saved?.losses ?? 0,
+    recent: saved?.recent ?? [],
+  };
+  const tag = `[Breaker] ${name}`;
+
+  function open(reason: string, nowMs: number): void {
+    r.state = "open";
+    r.reason = reason;
+    r.reopenAtMs = nowMs + BREAKER_COOLDOWN_MS;
+    r.orderFailures = 0;
+    r.losses = 0;
+    r.recent = [];
+    log(`${tag} OPEN: ${reason}; entries paused for ${Math.round(BREAKER_COOLDOWN_MS / 1000)}s`, "warn");
+  }
+
+  function close(reason: string): void {
+    r.state = "closed";
+    r.reason = null;
+    log(`${tag} closed: ${reason}`);
+  }
+
+  function current(nowMs: number): BreakerState {
+    if (r.state === "open" && nowMs >= r.reopenAtMs) {
+      r.state = "half-open";
+      log(`${tag} half-open after cool-down (${r.reason}); next entries are probes of ${BREAKER_PROBE_SIZE}`);
+      saveRecord(name, r);
+    }
+    return r.state;
+  }
+
+  /** Failed share of the orders in the window, once there are enough of them to judge. */
+  function errorRateSpike(): string | null {
+    if (BREAKER_ERROR_RATE <= 0 || r.recent.length < BREAKER_ERROR_MIN_ORDERS) return null;
+    const failed = r.recent.filter(([, ok]) => !ok).length;
+    if (failed / r.recent.length < BREAKER_ERROR_RATE) return null;
+    return `error rate ${failed}/${r.recent.length} orders failed in ${Math.round(BREAKER_ERROR_WINDOW_MS / 1000)}s`;
+  }
+
+  return {
+    gate(nowMs = Date.now()) {
+      const state = current(nowMs);
+      if (state === "open") {
+        return { allowed: false, reason: `circuit ${name} open until ${new Date(r.reopenAtMs).toISOString()} (${r.reason})` };
+      }
+      return { allowed: true, probeSize: state === "half-open" ? BREAKER_PROBE_SIZE : null };
+    },
+    recordOrder(ok, entry, error, nowMs = Date.now()) {
+      const state = current(nowMs);
+      r.recent = r.recent.filter(([t]) => nowMs - t < BREAKER_ERROR_WINDOW_MS);
+      r.recent.push([nowMs, ok]);
+      if (ok) {
+        r.orderFailures = 0;
+        if (state === "half-open" && entry) close("probe order went in");
+      } else {
+        r.orderFailures++;
+        const last = error ? ` (last: ${error})` : "";
+        if (state === "half-open") {
+          open(`probe order failed${last}`, nowMs);
+        } else if (state === "closed" && BREAKER_MAX_ORDER_FAILURES > 0 && r.orderFailures >= BREAKER_MAX_ORDER_FAILURES) {
+          open(`${r.orderFailures} consecutive failed orders${last}`, nowMs);
+        } else if (state === "closed") {
+          const spike = errorRateSpike();
+          if (spike) open(spike, nowMs);
+        }
+      }
+      saveRecord(name, r);
+    },
+    recordCycle(won, nowMs = Date.now()) {
+      const state = current(nowMs);
+      if (won) {
+        r.losses = 0;
+      } else {
+        r.losses++;
+        if (state === "half-open") open("losing cycle while half-open", nowMs);
+        else if (state === "closed" && BREAKER_MAX_LOSSES > 0 && r.losses >= BREAKER_MAX_LOSSES) open(`${r.losses} consecutive losing cycles`, nowMs);
+      }
+      saveRecord(name, r);
+    },
+    state: (nowMs = Date.now()) => current(nowMs),
+    describe(nowMs = Date.now()) {
+      const state = current(nowMs);
+      if (state === "open") return `open ${Math.ceil((r.reopenAtMs - nowMs) / 1000)}s (${r.reason})`;
+      if (state === "half-open") return `half-open, probe ${BREAKER_PROBE_SIZE} (${r.reason})`;
+      return `closed (${r.orderFailures} failed orders, ${r.losses} losses in a row)`;
+    },
+  };
+}
@@ -1,19 +1,41 @@
 /**
- * Real-time dual price monitor: Kalshi + Polymarket (Bitcoin 15m up/down).
+ * Real-time dual price monitor: Kalshi + Polymarket up/down markets (15m, 1h, 4h or daily slots) for one asset pair.
+ * Run one monitor per entry in MONITOR_ASSETS to watch several assets in one process.
  */
-import { spawn } from "child_process";
-import { Configuration, MarketApi } from "kalshi-typescript";
-import { config } from "../core/config";
-import { getBitcoinUpDownMarkets } from "../kalshi/bot";
-import { releaseMonitorLock } from "../core/monitor-lock";
-import { getPolymarketAskPrices, type PolymarketPrices } from "../polymarket/prices";
-
-export interface MarketPrices {
+import { Configuration, MarketApi, type Market } from "kalshi-typescript";
+import { config, BTC_SERIES_TICKER, KALSHI_WS_ENABLED, MONITOR_BOOK_DEPTH, POLYMARKET_WS_ENABLED } from "../core/config";
+import type { BookDepth } from "../core/order-book";
+import { recordFeedError, recordFeedQuote, updateFeedHealth, type QuoteTiming } from "../core/feed-health";
+import { slotBucket, slotEndMs, SLOT_SCHEDULES, type SlotSchedule } from "../core/slot-schedule";
+import { getUpDownMarkets } from "../kalshi/bot";
+import { startKalshiOrderbookStream, type KalshiOrderbookStream } from "../kalshi/ws";
+import { buildKalshiPrices, parseKalshiLevels } from "../kalshi/orderbook";
+import { buildMarketPair, parseWindowTime, type MarketPair, type MarketWindow } from "./market-pair";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import {
+  getPolymarketAskPrices,
+  primePolymarketTokenCacheForCurrentSlot,
+  slugForCurrentSlot,
+  type PolymarketPrices,
+} from "../polymarket/prices";
+import { startPolymarketMarketStream, type PolymarketMarketStream } from "../polymarket/ws";
+import { createSpotReference, startSpotStream, type SpotSnapshot } from "../spot/feed";
+
+export interface MarketPrices extends QuoteTiming {
   ticker: string;
   upAskCents: number;
   downAskCents: number;
+  /** Best bids in cents (0 when the side has no bids) */
+  upBidCents: number;
+  downBidCents: number;
+  upAskSize: number;
+  downAskSize: number;
+  upBidSize: number;
+  downBidSize: number;
   lastPriceCents: number;
-  fetchedAt: Date;
+  /** Top MONITOR_BOOK_DEPTH levels per side in cents, best first */
+  upBook: BookDepth;
+  downBook: BookDepth;
 }
 
 function buildConfiguration(): Configuration {
@@ -40,59 +62,97 @@ function dollarsToCents(dollars: string | undefined): number {
   return Number.isFinite(n) ? Math.round(n * 100) : 0;
 }
 
+/** REST: market (last price) + orderbook (depth) in parallel. */
 async function getMarketPrices(ticker: string): Promise<MarketPrices | null> {
   const marketApi = getMarketApi();
+  const requestedAt = new Date();
   try {
-    const res = await marketApi.getMarket(ticker);
-    const m = res.data.market;
+    const [marketRes, bookRes] = await Promise.all([
+      marketApi.getMarket(ticker),
+      marketApi.getMarketOrderbook(ticker, MONITOR_BOOK_DEPTH),
+    ]);
+    const m = marketRes.data.market;
     if (!m) return null;
-    return {
-      ticker: m.ticker,
-      upAskCents: m.yes_ask ?? dollarsToCents(m.yes_ask_dollars),
-      downAskCents: m.no_ask ?? dollarsToCents(m.no_ask_dollars),
-      lastPriceCents: m.last_price ?? dollarsToCents(m.last_price_dollars),
-      fetchedAt: new Date(),
-    };
+    const book = bookRes.data.orderbook as unknown as Record<string, unknown> | undefined;
+    const yesBids = parseKalshiLevels(book?.yes, book?.yes_dollars);
+    const noBids = parseKalshiLevels(book?.no, book?.no_dollars);
+    const lastPriceCents = m.last_price ?? dollarsToCents(m.last_price_dollars);
+    // REST responses carry no book timestamp; the server Date header is the closest exchange time.
+    const serverDate = Date.parse(String(bookRes.headers?.date ?? ""));
+    return buildKalshiPrices(m.ticker, yesBids, noBids, lastPriceCents, MONITOR_BOOK_DEPTH, {
+      requestedAt,
+      exchangeAt: Number.isFinite(serverDate) ? new Date(serverDate) : null,
+    });
   } catch {
     return null;
   }
 }
 
 const DEFAULT_POLL_MS = 2000;
+/** Min gap between market discovery attempts while waiting for the next slot's Kalshi market to list. */
+const ROLLOVER_RETRY_MS = 1000;
+/** How often to re-read the Kalshi market while its window or floor_strike (price to beat) is not known yet. */
+const STRIKE_REFRESH_MS = 5000;
 
-function spawnAndExit(): void {
-  releaseMonitorLock();
-  const [node, ...args] = process.argv;
-  const child = spawn(node, args, { detached: true, stdio: "ignore", env: process.env, cwd: process.cwd() });
-  child.unref();
-  process.exit(0);
+/**
+ * Open market covering `nowMs`: the earliest-closing one that has not closed yet.
+ * Right after a boundary the previous slot's market can still be listed as open for a few seconds.
+ */
+function marketWindow(market: Market): MarketWindow {
+  return { startMs: parseWindowTime(market.open_time), endMs: parseWindowTime(market.close_time) };
 }
 
-function current15mSlot(): string {
-  const d = new Date();
-  const y = d.getFullYear();
-  const month = String(d.getMonth() + 1).padStart(2, "0");
-  const day = String(d.getDate()).padStart(2, "0");
-  const h = String(d.getHours()).padStart(2, "0");
-  const min = Math.floor(d.getMinutes() / 15) * 15;
-  const minStr = String(min).padStart(2, "0");
-  return `${y}-${month}-${day}_${h}-${minStr}`;
+function currentMarket(markets: Market[], nowMs: number): Market | undefined {
+  const live = markets.filter((m) => {
+    const close = Date.parse(m.close_time);
+    return !Number.isFinite(close) || close > nowMs;
+  });
+  live.sort((a, b) => (Date.parse(a.close_time) || Infinity) - (Date.parse(b.close_time) || Infinity));
+  return live[0];
 }
 
 export interface DualMarketPrices {
+  /** Asset pair this tick belongs to (e.g. "btc") */
+  asset: string;
+  /** Slot schedule of the pair's markets */
+  schedule: SlotSchedule;
   kalshiTicker: string;
   kalshi: MarketPrices | null;
   polymarket: PolymarketPrices | null;
+  /** Kalshi ↔ Polymarket window check for this tick (null until Polymarket prices are known) */
+  pair: MarketPair | null;
+  /** Underlying spot price, price to beat and time to close (null when SPOT_SOURCE=none) */
+  spot: SpotSnapshot | null;
   fetchedAt: Date;
 }
 
-async function getDualPrices(options: { kalshiTicker: string; polymarketMarket?: string }): Promise<DualMarketPrices> {
+type DualTick = Omit<DualMarketPrices, "pair" | "spot">;
+
+/** Fetch both venues over REST, skipping any venue whose prices are given (live WebSocket book). REST results feed the health stats. */
+async function getDualPrices(options: {
+  asset: string;
+  schedule: SlotSchedule;
+  kalshiTicker: string;
+  polymarketMarket?: string;
+  kalshi?: MarketPrices | null;
+  polymarket?: PolymarketPrices | null;
+}): Promise<DualTick> {
   const fetchedAt = new Date();
   const [kalshiResult, polymarketResult] = await Promise.all([
-    getMarketPrices(options.kalshiTicker),
-    getPolymarketAskPrices(options.polymarketMarket ?? "btc"),
+    options.kalshi ?? getMarketPrices(options.kalshiTicker),
+    options.polymarket ?? getPolymarketAskPrices(options.polymarketMarket ?? "btc", options.schedule),
   ]);
+  if (!options.kalshi) {
+    if (kalshiResult) recordFeedQuote("kalshi", options.asset, kalshiResult);
+    else recordFeedError("kalshi", options.asset, `REST market/orderbook failed for ${options.kalshiTicker}`);
+  }
+  if (!options.polymarket) {
+    if (polymarketResult) recordFeedQuote("polymarket", options.asset, polymarketResult);
+    else recordFeedError("polymarket", options.asset, "REST book failed");
+  }
   return {
+    asset: options.asset,
+    schedule: options.schedule,
     kalshiTicker: options.kalshiTicker,
     kalshi: kalshiResult,
     polymarket: polymarketResult,
@@ -101,32 +161,194 @@ async function getDualPrices(options: { kalshiTicker: string; polymarketMarket?:
 }
 
 export async function startDualPriceMonitor(options: {
+  /** Asset name carried on every tick (default "btc") */
+  asset?: string;
+  /** Kalshi series used to discover the open market (default KXBTC15M) */
+  kalshiSeries?: string;
   kalshiTicker?: string;
+  /** Polymarket asset, slug prefix or slug template (default "btc") */
   polymarketMarket?: string;
+  /** Slot schedule of both markets (default 15m) */
+  schedule?: SlotSchedule;
+  /** Asset log stream (see assetLogStream) */
+  logStream?: string;
   intervalMs?: number;
-  restartProcessOnQuarterHour?: boolean;
   onPrices: (prices: DualMarketPrices) => void;
+  /** Called after the monitor moved to the next slot's market */
+  onRollover?: (previousTicker: string, nextTicker: string) => void;
   onError?: (err: unknown) => void;
 }): Promise<() => void> {
+  const asset = options.asset ?? "btc";
+  const kalshiSeries = options.kalshiSeries ?? BTC_SERIES_TICKER;
+  const schedule = options.schedule ?? SLOT_SCHEDULES["15m"];
   let kalshiTicker = options.kalshiTicker;
-  let lastSlot = current15mSlot();
+  let kalshiWindow: MarketWindow = { startMs: null, endMs: null };
+  let kalshiStrike: number | null = null;
+  let lastSlot = slotBucket(schedule, new Date());
+  const log = (message: string) => {
+    console.log(options.logStream ? `[${options.logStream}] ${message}` : message);
+    appendMonitorLogWithTimestamp(message, options.logStream);
+  };
+
   if (!kalshiTicker) {
-    const markets = await getBitcoinUpDownMarkets();
-    if (markets.length === 0) throw new Error("No open Bitcoin up/down markets found.");
-    kalshiTicker = markets[0].ticker;
+    const markets = await getUpDownMarkets(kalshiSeries, options.logStream);
+    const market = currentMarket(markets, Date.now());
+    if (!market) throw new Error(`No open ${kalshiSeries} up/down markets found.`);
+    kalshiTicker = market.ticker;
+    kalshiWindow = marketWindow(market);
+    kalshiStrike = market.floor_strike ?? null;
+  } else {
+    // Only the window and strike come from REST here: on failure the window stays unknown (pairs then count as
+    // mismatched, so nothing enters) and the poll loop retries the lookup.
+    try {
+      const market = (await getMarketApi().getMarket(kalshiTicker)).data.market;
+      if (market) {
+        kalshiWindow = marketWindow(market);
+        kalshiStrike = market.floor_strike ?? null;
+      }
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log(`[MarketPair] Market lookup failed for ${kalshiTicker}: ${msg}; window unknown until a retry succeeds`);
+    }
   }
   const intervalMs = options.intervalMs ?? DEFAULT_POLL_MS;
   const useAutoRefresh = !options.kalshiTicker;
-  const restartOnQuarterHour = options.restartProcessOnQuarterHour ?? useAutoRefresh;
   const polymarketMarket = options.polymarketMarket ?? "btc";
   let stopped = false;
   let pollInProgress = false;
+  let lastKalshi: MarketPrices | null = null;
+  let lastPolymarket: PolymarketPrices | null = null;
+  /** Set from the slot boundary until the next slot's Kalshi market is found; ticks are held back meanwhile. */
+  let rolloverPending = false;
+  let nextRolloverAttemptMs = 0;
+  let nextStrikeRefreshMs = 0;
+  let loggedStrikeTicker: string | null = null;
+
+  /** Polymarket prices only if they belong to the current slot (a stream can lag the boundary by up to a second). */
+  const currentSlotPolymarket = (prices: PolymarketPrices | null): PolymarketPrices | null =>
+    prices && prices.slug === slugForCurrentSlot(polymarketMarket, schedule) ? prices : null;
+
+  /** Pair keys already logged, so each match/mismatch is logged once per market pair. */
+  const loggedPairs = new Set<string>();
+  const pairFor = (tick: DualTick): MarketPair | null => {
+    if (!tick.polymarket) return null;
+    const pair = buildMarketPair({
+      kalshiTicker: tick.kalshiTicker,
+      kalshi: kalshiWindow,
+      polymarketSlug: tick.polymarket.slug,
+      conditionId: tick.polymarket.conditionId,
+      polymarket: { startMs: tick.polymarket.startMs, endMs: tick.polymarket.endMs },
+    });
+    const key = `${pair.kalshiTicker}|${pair.polymarketSlug}`;
+    if (!loggedPairs.has(key)) {
+      if (loggedPairs.size >= 64) loggedPairs.clear();
+      loggedPairs.add(key);
+      log(
+        pair.matched
+          ? `[MarketPair] Paired ${pair.kalshiTicker} ↔ ${pair.polymarketSlug} (${new Date(pair.kalshi.startMs ?? 0).toISOString()} → ${new Date(pair.kalshi.endMs ?? 0).toISOString()})`
+          : `[MarketPair] MISMATCH ${pair.kalshiTicker} ↔ ${pair.polymarketSlug}: ${pair.mismatch}`
+      );
+    }
+    return pair;
+  };
+
+  const spotReference = createSpotReference(schedule);
+  const spotStream = startSpotStream(
+    asset,
+    (tick) => {
+      recordFeedQuote("spot", asset, tick);
+      spotReference.onTick(tick);
+    },
+    options.logStream
+  );
+
+  const spotFor = (tick: DualTick, nowMs: number): SpotSnapshot | null => {
+    if (!spotStream) return null;
+    const spot = spotReference.snapshot(nowMs, kalshiWindow.endMs ?? slotEndMs(schedule, nowMs), kalshiStrike);
+    updateFeedHealth("spot", asset, spot.tick, nowMs);
+    if (spot.priceToBeat != null && loggedStrikeTicker !== tick.kalshiTicker) {
+      loggedStrikeTicker = tick.kalshiTicker;
+      log(`[Spot] ${asset} price to beat ${spot.priceToBeat.toFixed(2)} (${spot.priceToBeatSource === "kalshi" ? "Kalshi floor_strike" : "spot at slot open"}) for ${tick.kalshiTicker}`);
+    }
+    return spot;
+  };
+
+  const emit = (tick: DualTick) => {
+    if (rolloverPending) return;
+    const nowMs = Date.now();
+    updateFeedHealth("kalshi", asset, tick.kalshi, nowMs);
+    updateFeedHealth("polymarket", asset, tick.polymarket, nowMs);
+    try {
+      options.onPrices({ ...tick, pair: pairFor(tick), spot: spotFor(tick, nowMs) });
+    } catch (e) {
+      options.onError?.(e);
+    }
+  };
+
+  // Each stream pushes a tick on every book change, paired with the latest prices from the other venue.
+  let kalshiStream: KalshiOrderbookStream | null = null;
+  if (KALSHI_WS_ENABLED) {
+    kalshiStream = startKalshiOrderbookStream({
+      ticker: kalshiTicker,
+      logStream: options.logStream,
+      onPrices: (kalshi) => {
+        if (stopped || kalshi.ticker !== kalshiTicker) return;
+        recordFeedQuote("kalshi", asset, kalshi);
+        lastKalshi = kalshi;
+        emit({ asset, schedule, kalshiTicker: kalshi.ticker, kalshi, polymarket: lastPolymarket, fetchedAt: kalshi.fetchedAt });
+      },
+    });
+  }
+  let polymarketStream: PolymarketMarketStream | null = null;
+  if (POLYMARKET_WS_ENABLED) {
+    polymarketStream = startPolymarketMarketStream({
+      market: polymarketMarket,
+      schedule,
+      logStream: options.logStream,
+      onPrices: (polymarket) => {
+        if (stopped || !kalshiTicker || !currentSlotPolymarket(polymarket)) return;
+        recordFeedQuote("polymarket", asset, polymarket);
+        lastPolymarket = polymarket;
+        emit({ asset, schedule, kalshiTicker, kalshi: lastKalshi, polymarket, fetchedAt: polymarket.fetchedAt });
+      },
+    });
+  }
 
   const scheduleNext = (startedAt: number) => {
     if (stopped) return;
     setTimeout(poll, Math.max(0, intervalMs - (Date.now() - startedAt)));
   };
 
+  /**
+   * Move to the next slot in-process: find the new Kalshi market, resolve the new Polymarket tokens and switch
+   * the Kalshi stream (the Polymarket stream follows the slot on its own). Returns false to retry on a later poll.
+   */
+  const rollover = async (): Promise<boolean> => {
+    nextRolloverAttemptMs = Date.now() + ROLLOVER_RETRY_MS;
+    const previousTicker = kalshiTicker;
+    let market: Market | undefined;
+    try {
+      const [markets] = await Promise.all([
+        getUpDownMarkets(kalshiSeries, options.logStream),
+        primePolymarketTokenCacheForCurrentSlot(polymarketMarket, schedule),
+      ]);
+      market = currentMarket(markets, Date.now());
+    } catch (e) {
+      options.onError?.(e);
+      return false;
+    }
+    if (stopped || !market || market.ticker === previousTicker) return false;
+    kalshiTicker = market.ticker;
+    kalshiWindow = marketWindow(market);
+    kalshiStrike = market.floor_strike ?? null;
+    lastKalshi = null;
+    lastPolymarket = null;
+    kalshiStream?.setTicker(kalshiTicker);
+    log(`[Monitor] Slot rollover (${asset} ${schedule.name}): ${previousTicker} → ${kalshiTicker}`);
+    if (previousTicker) options.onRollover?.(previousTicker, kalshiTicker);
+    return true;
+  };
+
   const poll = async () => {
     if (pollInProgress) return;
     pollInProgress = true;
@@ -134,35 +356,60 @@ export async function startDualPriceMonitor(options: {
     try {
       if (stopped) return;
       if (useAutoRefresh) {
-        const slot = current15mSlot();
+        const slot = slotBucket(schedule, new Date());
         if (slot !== lastSlot) {
-          lastSlot = slot;
-          if (restartOnQuarterHour) {
-            spawnAndExit();
+          rolloverPending = true;
+          if (Date.now() < nextRolloverAttemptMs || !(await rollover())) {
+            scheduleNext(startedAt);
             return;
           }
-          const markets = await getBitcoinUpDownMarkets();
-          if (markets.length > 0) kalshiTicker = markets[0].ticker;
+          lastSlot = slot;
+          rolloverPending = false;
         }
       }
       if (stopped || !kalshiTicker) {
         scheduleNext(startedAt);
         return;
       }
-      const dual = await getDualPrices({ kalshiTicker, polymarketMarket });
-      if (stopped) return;
-      try {
-        options.onPrices(dual);
-      } catch (e) {
-        options.onError?.(e);
+      const windowUnknown = kalshiWindow.startMs == null || kalshiWindow.endMs == null;
+      if ((windowUnknown || (spotStream && kalshiStrike == null)) && Date.now() >= nextStrikeRefreshMs) {
+        nextStrikeRefreshMs = Date.now() + STRIKE_REFRESH_MS;
+        const ticker = kalshiTicker;
+        getMarketApi()
+          .getMarket(ticker)
+          .then((res) => {
+            const market = res.data.market;
+            if (ticker !== kalshiTicker || !market) return;
+            kalshiStrike = market.floor_strike ?? null;
+            if (windowUnknown) kalshiWindow = marketWindow(market);
+          })
+          .catch(() => {});
       }
+      // Poll a venue over REST only while its stream is down.
+      const dual = await getDualPrices({
+        asset,
+        schedule,
+        kalshiTicker,
+        polymarketMarket,
+        kalshi: kalshiStream?.getPrices() ?? null,
+        polymarket: currentSlotPolymarket(polymarketStream?.getPrices() ?? null),
+      });
+      if (stopped) return;
+      lastKalshi = dual.kalshi;
+      lastPolymarket = dual.polymarket;
+      emit(dual);
       scheduleNext(startedAt);
     } finally {
       pollInProgress = false;
     }
   };
   setTimeout(poll, 0);
-  return () => { stopped = true; };
+  return () => {
+    stopped = true;
+    kalshiStream?.close();
+    spotStream?.close();
+    polymarketStream?.close();
+  };
 }
 
 /** True if Kalshi cents is a real price (finite, 0–100 cents). */
@@ -177,8 +424,20 @@ function isRealPolyPrice(price: number | null | undefined): boolean {
   return price != null && Number.isFinite(price) && price >= 0 && price <= 1;
 }
 
+/** "spot 97012.50 beat 97000.00 Δ+12.50 (+1.3bps) 412s" (beat/Δ omitted until the price to beat is known). */
+function formatSpot(spot: SpotSnapshot): string {
+  const parts = [`spot ${spot.price?.toFixed(2)}`];
+  if (spot.priceToBeat != null && spot.distance != null) {
+    const sign = spot.distance >= 0 ? "+" : "";
+    parts.push(`beat ${spot.priceToBeat.toFixed(2)}`, `Δ${sign}${spot.distance.toFixed(2)} (${sign}${(spot.distanceBps ?? 0).toFixed(1)}bps)`);
+  }
+  parts.push(`${Math.round(spot.secondsToClose)}s`);
+  return parts.join(" ");
+}
+
 /**
  * Format one log line only when all four prices are real; otherwise return null (skip the line).
+ * Asks come first (scripts parse that prefix); best bids, top-of-book sizes and the spot reference are appended.
  */
 export function formatDualPricesLine(p: DualMarketPrices): string | null {
   if (!p.kalshi || !p.polymarket) return null;
@@ -189,5 +448,15 @@ export function formatDualPricesLine(p: DualMarketPrices): string | null {
   const kDown = (p.kalshi.downAskCents / 100).toFixed(2);
   const pUp = p.polymarket.upAsk.toFixed(2);
   const pDown = p.polymarket.downAsk.toFixed(2);
-  return `[${time}] Kalshi UP ${kUp} DOWN ${kDown}  |  Polymarket UP ${pUp} DOWN ${pDown}`;
+  const k = p.kalshi;
+  const pm = p.polymarket;
+  const kBids = `${(k.upBidCents / 100).toFixed(2)}/${(k.downBidCents / 100).toFixed(2)}`;
+  const pBids = `${pm.upBid.toFixed(2)}/${pm.downBid.toFixed(2)}`;
+  const kSizes = `${k.upBidSize}x${k.upAskSize} ${k.downBidSize}x${k.downAskSize}`;
+  const pSizes = `${pm.upBidSize}x${pm.upAskSize} ${pm.downBidSize}x${pm.downAskSize}`;
+  const spot = p.spot?.price != null ? `  |  ${formatSpot(p.spot)}` : "";
+  return (
+    `[${time}] Kalshi UP ${kUp} DOWN ${kDown}  |  Polymarket UP ${pUp} DOWN ${pDown}` +
+    `  |  bids K ${kBids} P ${pBids}  |  size K ${kSizes} P ${pSizes}${spot}`
+  );
 }
@@ -1,21 +1,85 @@
 /**
- * ROLE: Strategy logic only. Called by run-kalshi-1-poly.ts on every price tick.
- * - If we hold a position: sell when Poly same-side < effective threshold (polySellBelow, or polySellBelow - rangeBuffer when Kalshi same-side = 1.00).
- * - Else: buy same side (UP or DOWN) when Method 1 (Kalshi 1.00 + Poly >= polyBuyMin). One position per market.
+ * ROLE: Kalshi1Poly Method 1 strategy, registered as "kalshi-1-poly" (see strategy.ts). Runs on every price tick.
+ * - If we hold a position: exit when an exit rule fires (exitTrigger) by selling, or by hedging on Kalshi.
+ * - Else: buy same side (UP or DOWN) when Method 1 (Kalshi 1.00 + Poly >= polyBuyMin), or on Kalshi when Polymarket
+ *   leads (mirrored entry). One position per market.
  */
-import type { DualMarketPrices } from "./dual-monitor";
-import { placePolymarketOrder, sellPolymarketOrder, getPolymarketBalanceUsd, type PlacePolyResult } from "../polymarket/order";
-import { getBestAskForToken } from "../polymarket/prices";
+import type { DualMarketPrices, MarketPrices } from "./dual-monitor";
+import type { Strategy } from "./strategy";
+import type { OrderEvent, StrategyDecision } from "./tick-recorder";
+import { loadPositions, removePosition, savePosition, type ExitPolicy, type HedgeLeg } from "./position-store";
+import { createSizer, sizingNeedsEquity, type SizeResult, type Sizer } from "./position-sizing";
+import type { BreakerGate } from "./circuit-breaker";
+import { checkAffordable, checkBalanceForEntry } from "./balance-guard";
+import { checkBuyDepth, levelsInDollars } from "./slippage-check";
+import {
+  addMarketState,
+  createStrategyRuntime,
+  decisionBuilder,
+  evictClosedMarkets,
+  expireOnSlotEnd,
+  findMarketState,
+  getAssetState,
+  log,
+  probeSize,
+  recordOrder,
+  staleFeeds,
+  tickCloseMs,
+  type AssetState,
+  type MarketStateBase,
+  type StrategyRuntime,
+} from "./strategy-support";
+import { placeOrder, placeSellOrder, cancelKalshiOrder, getKalshiPosition, getKalshiRestingOrders, getKalshiBalanceCents } from "../kalshi/bot";
+import {
+  placePolymarketOrder,
+  sellPolymarketOrder,
+  getPolymarketBalanceUsd,
+  getPolymarketOpenOrders,
+  type PlacePolyResult,
+} from "../polymarket/order";
+import { getOrderBookForToken, type PolymarketPrices } from "../polymarket/prices";
 import { getProxyTokenBalanceHuman } from "../polymarket/redeem";
-import { addHolding, clearMarketHoldings } from "../polymarket/holdings";
+import { addHolding, clearMarketHoldings, getMarketHoldings } from "../polymarket/holdings";
 import {
-  POLY_BUY_MIN,
-  POLY_SELL_BELOW,
-  POLY_SELL_RANGE_BUFFER,
+  POLY_BUY_MIN_CURVE,
+  POLY_SELL_BELOW_CURVE,
+  POLY_SELL_RANGE_BUFFER_CURVE,
+  POLY_EXIT_PRICE_SOURCE,
+  POLY_TRAILING_STOP,
+  POLY_TAKE_PROFIT,
+  POLY_MAX_DRAWDOWN,
   KALSHI_1_POLY_DRY_RUN,
   KALSHI_1_POLY_SIZE,
+  KALSHI_1_POLY_HEDGE,
+  KALSHI_1_POLY_POLY_ENTRY,
+  KALSHI_1_POLY_KALSHI_ENTRY,
+  KALSHI_1_CONFIRM_TICKS,
+  KALSHI_1_CONFIRM_MS,
+  KALSHI_1_CONFIRM_LAST_TRADE_CENTS,
+  KALSHI_1_REARM_BELOW,
+  POLY_LEAD_TRIGGER,
+  KALSHI_BUY_MAX,
+  KALSHI_BUY_LIMIT_BUFFER_CENTS,
+  KALSHI_SELL_BELOW_CURVE,
+  ARB_KALSHI_MIN,
+  ARB_PRICE_BUFFER,
+  MAX_OPEN_POSITIONS,
+  SIZING_MODE,
+  BREAKER_SELL_BACKOFF_MS,
+  POLY_BUY_LIMIT_BUFFER,
+  TRADING_CALENDAR_FILE,
 } from "../core/config";
 import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import { checkEntry, recordEntry, recordExit, type VenueNotional } from "../core/risk-manager";
+import { calendarEntryBlock } from "../core/trading-calendar";
+import { midPrice } from "../core/order-book";
+import { evalThresholdCurve, formatThresholdCurve, type ThresholdCurve } from "../core/threshold-curve";
+import {
+  minutesIntoSlot,
+  slotStartMs,
+  type SlotSchedule,
+  type SlotScheduleName,
+} from "../core/slot-schedule";
 
 // Constants
 const KALSHI_1 = 100;           // cents; Method 1 trigger (Kalshi same-side >= 1.00)
@@ -27,78 +91,153 @@ const BALANCE_FETCH_DELAY_MS = 1500;
 /** Max sell attempts; retry on any sell failure */
 const SELL_MAX_ATTEMPTS = 20;
 const SELL_RETRY_DELAY_MS = 1000;
-/** If more than this many minutes past the quarter (e.g. 06:34 when quarter is 06:30), fetch proxy balance and buy size = Math.floor(balance). */
+/** Proxy balance (sizing equity for Poly entries) is fetched this many minutes into each slot (e.g. 06:35 for the 06:30 15m slot). */
 const MINUTES_PAST_QUARTER_USE_BALANCE = 5;
+const STRATEGY_NAME = "kalshi-1-poly";
+const decision = decisionBuilder(STRATEGY_NAME);
+
+/** Pre-fetched proxy USDC balance so we don't fetch at buy time (avoids delay and price change). One per slot schedule. */
+interface BalanceCache {
+  slotStartMs: number;
+  /** Last fetched balance (kept from the previous slot until this slot's fetch) */
+  usd: number | null;
+  fetchScheduled: boolean;
+  timeoutId: ReturnType<typeof setTimeout> | null;
+}
+
+interface Position {
+  /** polymarket: Method 1 shares. kalshi: mirrored entry contracts. */
+  venue: "polymarket" | "kalshi";
+  side: "UP" | "DOWN";
+  /** Polymarket token ID, or the Kalshi ticker */
+  tokenId: string;
+  size: number;
+  conditionId: string;
+  entryPrice: number;
+  /** Exit threshold curves fixed at entry (kept across restarts) */
+  sellBelow: ThresholdCurve;
+  sellRangeBuffer: ThresholdCurve;
+  exits: ExitPolicy;
+  /** Highest exit-side price since entry */
+  peakPrice: number;
+  /** Exit-side price on the last tick (not persisted); decides the cycle's outcome if it is held to the close */
+  lastPrice?: number;
+  /** Kalshi opposite-side leg once hedged */
+  hedge?: HedgeLeg;
+  openedAt: string;
+}
 
-/** Minutes since the last quarter (:00, :15, :30, :45). E.g. at 06:33 returns 3, at 06:34 returns 4. */
-function minutesSinceLastQuarter(nowMs: number): number {
-  const d = new Date(nowMs);
-  const min = d.getUTCMinutes();
-  const sec = d.getUTCSeconds();
-  const ms = d.getUTCMilliseconds();
-  const quarterMin = Math.floor(min / 15) * 15;
-  const elapsedMin = min - quarterMin + sec / 60 + ms / 60000;
-  return elapsedMin;
-}
-
-/** Start of current 15-min quarter in UTC ms (e.g. 07:30:00.000Z). */
-function getCurrentQuarterStartMs(nowMs: number): number {
-  const d = new Date(nowMs);
-  const min = d.getUTCMinutes();
-  const quarterMin = Math.floor(min / 15) * 15;
-  const q = new Date(d);
-  q.setUTCMinutes(quarterMin, 0, 0);
-  return q.getTime();
-}
-
-// Pre-fetched proxy USDC balance so we don't fetch at buy time (avoids delay and price change)
-let lastQuarterStartMs = 0;
-let cachedProxyBalanceUsd: number | null = null;
-let cachedProxyBalanceUsdAt = 0;
-let balanceFetchScheduled = false;
-let balanceFetchTimeoutId: ReturnType<typeof setTimeout> | null = null;
+/**
+ * created: first seen, no trigger yet. armed: Kalshi same-side 1.00 confirmed, waiting for Poly >= polyBuyMin
+ * (mirrored: Poly same-side >= POLY_LEAD_TRIGGER, waiting for Kalshi <= KALSHI_BUY_MAX); back to created when the Kalshi
+ * trigger is dropped below KALSHI_1_REARM_BELOW.
+ * in-position: bought. hedged: exit bought the opposite side on Kalshi; both legs held to resolution.
+ * exited: sold (one cycle per market). done: no trading (skipped or exit gave up).
+ * expired: slot closed; about to be evicted (an open position is left to resolve and redeem).
+ */
+export type MarketLifecycle = "created" | "armed" | "in-position" | "hedged" | "exited" | "done" | "expired";
+
+/** Kalshi 1.00 on one side, not yet confirmed (KALSHI_1_CONFIRM_*) */
+interface PendingTrigger {
+  sinceMs: number;
+  ticks: number;
+  /** A trade on that side printed at >= KALSHI_1_CONFIRM_LAST_TRADE_CENTS since the trigger */
+  lastTradeSeen: boolean;
+}
+
+/** Per-market state, keyed by Kalshi ticker + Polymarket conditionId */
+interface MarketState extends MarketStateBase {
+  lifecycle: MarketLifecycle;
+  /** Why the market is done (logged once, returned as the decision reason) */
+  doneReason: string | null;
+  position: Position | null;
+  /** Kalshi 1.00 trigger confirmed per side */
+  seenKalshiUp1: boolean;
+  seenKalshiDown1: boolean;
+  pendingKalshi1: Record<"UP" | "DOWN", PendingTrigger | null>;
+  /** Kalshi 1.00 triggers on this market that fell back before confirming */
+  rejectedTriggers: number;
+  /** Entry refused because the Kalshi/Polymarket windows did not match (logged once) */
+  unpairedLogged: boolean;
+  /** Last reason a hedge could not be placed (logged when it changes) */
+  hedgeError: string | null;
+  /** Last reason the sizer, the depth check, the risk manager, the balance guard or a circuit breaker refused an entry (logged when it changes) */
+  entryNote: string | null;
+  /** No sell before this (UTC ms): the venue's breaker opened during the last sell loop */
+  sellBackoffUntilMs: number;
+  /** Why the trading calendar currently closes entries on this market (logged when it changes) */
+  calendarNote: string | null;
+}
+
+/**
+ * Everything one strategy instance owns besides the shared runtime (strategy-support.ts). One MarketState per Kalshi
+ * ticker / Polymarket condition, evicted once its slot has closed.
+ */
+interface Kalshi1PolyState extends StrategyRuntime<MarketState> {
+  balanceCaches: Map<SlotScheduleName, BalanceCache>;
+  /** Entry sizing and the hit rate behind it, shared by all assets */
+  sizer: Sizer;
+  /** Strategy header printed (init runs once per asset) */
+  announced: boolean;
+}
+
+function createState(): Kalshi1PolyState {
+  return {
+    ...createStrategyRuntime<MarketState>(STRATEGY_NAME),
+    balanceCaches: new Map(),
+    sizer: createSizer(STRATEGY_NAME, KALSHI_1_POLY_SIZE),
+    announced: false,
+  };
+}
+
+function getBalanceCache(st: Kalshi1PolyState, schedule: SlotSchedule): BalanceCache {
+  let c = st.balanceCaches.get(schedule.name);
+  if (!c) {
+    c = { slotStartMs: 0, usd: null, fetchScheduled: false, timeoutId: null };
+    st.balanceCaches.set(schedule.name, c);
+  }
+  return c;
+}
 
 /**
- * Ensure proxy balance is either already fetched (if >= 4m past quarter) or scheduled to fetch at 4m.
- * Call every tick so we schedule once per quarter and use cached value when deciding buy size.
- * If already >= 4m past quarter, fetches now so cache is ready before buy decision.
+ * Ensure proxy balance is either already fetched (if >= 5m into the slot) or scheduled to fetch at 5m.
+ * Call every tick so we schedule once per slot and use cached value when deciding buy size.
+ * If already >= 5m into the slot, fetches now so cache is ready before buy decision.
  */
-async function ensureProxyBalanceScheduledOrFetched(nowMs: number): Promise<void> {
-  const quarterStart = getCurrentQuarterStartMs(nowMs);
-  if (quarterStart !== lastQuarterStartMs) {
-    if (balanceFetchTimeoutId != null) {
-      clearTimeout(balanceFetchTimeoutId);
-      balanceFetchTimeoutId = null;
+async function ensureProxyBalanceScheduledOrFetched(st: Kalshi1PolyState, schedule: SlotSchedule, nowMs: number): Promise<void> {
+  const cache = getBalanceCache(st, schedule);
+  const start = slotStartMs(schedule, nowMs);
+  if (start !== cache.slotStartMs) {
+    if (cache.timeoutId != null) {
+      clearTimeout(cache.timeoutId);
+      cache.timeoutId = null;
     }
-    lastQuarterStartMs = quarterStart;
-    balanceFetchScheduled = false;
-    cachedProxyBalanceUsd = null;
+    cache.slotStartMs = start;
+    cache.fetchScheduled = false;
   }
-  if (balanceFetchScheduled) return;
-  balanceFetchScheduled = true;
-  const minsPast = minutesSinceLastQuarter(nowMs);
+  if (cache.fetchScheduled) return;
+  cache.fetchScheduled = true;
+  const minsPast = minutesIntoSlot(schedule, nowMs);
   if (minsPast >= MINUTES_PAST_QUARTER_USE_BALANCE) {
     const balance = await getPolymarketBalanceUsd();
     if (balance != null) {
-      cachedProxyBalanceUsd = balance;
-      cachedProxyBalanceUsdAt = Date.now();
+      cache.usd = balance;
       appendMonitorLogWithTimestamp(
-        `[Kalshi1Poly] >${MINUTES_PAST_QUARTER_USE_BALANCE}m past quarter (${minsPast.toFixed(1)}m); fetched proxy balance $${balance.toFixed(2)} (cached for buy size)`
+        `[Kalshi1Poly] >${MINUTES_PAST_QUARTER_USE_BALANCE}m into ${schedule.name} slot (${minsPast.toFixed(1)}m); fetched proxy balance $${balance.toFixed(2)} (cached for buy size)`
       );
       console.log("[Kalshi1Poly] Fetched proxy balance $", balance.toFixed(2), "(cached for buy size)");
     }
   } else {
     const delayMs = (MINUTES_PAST_QUARTER_USE_BALANCE - minsPast) * 60 * 1000;
     appendMonitorLogWithTimestamp(
-      `[Kalshi1Poly] Scheduling proxy balance fetch in ${(delayMs / 60000).toFixed(1)}m (at ${MINUTES_PAST_QUARTER_USE_BALANCE}m past quarter)`
+      `[Kalshi1Poly] Scheduling proxy balance fetch in ${(delayMs / 60000).toFixed(1)}m (at ${MINUTES_PAST_QUARTER_USE_BALANCE}m into ${schedule.name} slot)`
     );
     console.log("[Kalshi1Poly] Scheduling proxy balance fetch in", (delayMs / 60000).toFixed(1), "m");
-    balanceFetchTimeoutId = setTimeout(() => {
-      balanceFetchTimeoutId = null;
+    cache.timeoutId = setTimeout(() => {
+      cache.timeoutId = null;
       getPolymarketBalanceUsd().then((balance) => {
         if (balance != null) {
-          cachedProxyBalanceUsd = balance;
-          cachedProxyBalanceUsdAt = Date.now();
+          cache.usd = balance;
           appendMonitorLogWithTimestamp(`[Kalshi1Poly] Fetched proxy balance $${balance.toFixed(2)} (cached for buy size)`);
           console.log("[Kalshi1Poly] Fetched proxy balance $", balance.toFixed(2), "(cached for buy size)");
         }
@@ -107,247 +246,1006 @@ async function ensureProxyBalanceScheduledOrFetched(nowMs: number): Promise<void
   }
 }
 
-interface Position {
-  side: "UP" | "DOWN";
-  tokenId: string;
-  size: number;
-  conditionId: string;
+/** Same-side Poly price the exit rule compares against the threshold (POLY_EXIT_PRICE_SOURCE). */
+function polyExitPrice(poly: PolymarketPrices, side: "UP" | "DOWN"): number {
+  const ask = side === "UP" ? poly.upAsk : poly.downAsk;
+  const bid = side === "UP" ? poly.upBid : poly.downBid;
+  if (POLY_EXIT_PRICE_SOURCE === "bid") return bid;
+  if (POLY_EXIT_PRICE_SOURCE === "mid") return midPrice(bid, ask) ?? ask;
+  return ask;
+}
+
+function setLifecycle(m: MarketState, next: MarketLifecycle, reason?: string): void {
+  if (m.lifecycle === next) return;
+  const prev = m.lifecycle;
+  m.lifecycle = next;
+  if (next === "done") m.doneReason = reason ?? m.doneReason;
+  log(m, `[Kalshi1Poly] Market ${m.ticker}: ${prev} → ${next}${reason ? ` (${reason})` : ""}`);
+}
+
+function addMarket(st: Kalshi1PolyState, s: AssetState, ticker: string, conditionId: string, closeMs: number): MarketState {
+  return addMarketState(st, s, ticker, conditionId, closeMs, {
+    lifecycle: "created",
+    doneReason: null,
+    position: null,
+    seenKalshiUp1: false,
+    seenKalshiDown1: false,
+    pendingKalshi1: { UP: null, DOWN: null },
+    rejectedTriggers: 0,
+    unpairedLogged: false,
+    hedgeError: null,
+    entryNote: null,
+    sellBackoffUntilMs: 0,
+    calendarNote: null,
+  });
+}
+
+/**
+ * State for the tick's market, created on first sight. A market whose entry trigger already fired then is skipped:
+ * Kalshi side at 1.00 (Method 1) or Poly side >= POLY_LEAD_TRIGGER (mirrored), for the enabled directions.
+ */
+function getMarketState(st: Kalshi1PolyState, s: AssetState, p: DualMarketPrices, nowMs: number): MarketState {
+  const existing = findMarketState(st, p);
+  if (existing) return existing;
+  const m = addMarket(st, s, p.kalshiTicker, p.polymarket?.conditionId ?? "", tickCloseMs(p, nowMs));
+  const kUp = (p.kalshi?.upAskCents ?? 0) / 100;
+  const kDown = (p.kalshi?.downAskCents ?? 0) / 100;
+  const pUp = p.polymarket?.upAsk ?? 0;
+  const pDown = p.polymarket?.downAsk ?? 0;
+  if (KALSHI_1_POLY_POLY_ENTRY && (kUp >= 1 || kDown >= 1)) {
+    log(s, `[Kalshi1Poly] Skip market ${p.kalshiTicker}: initial Kalshi UP ${kUp.toFixed(2)} DOWN ${kDown.toFixed(2)} (either already 1.00)`);
+    setLifecycle(m, "done", "Kalshi already at 1.00 on first observation");
+  } else if (KALSHI_1_POLY_KALSHI_ENTRY && (pUp >= POLY_LEAD_TRIGGER || pDown >= POLY_LEAD_TRIGGER)) {
+    log(s, `[Kalshi1Poly] Skip market ${p.kalshiTicker}: initial Poly UP ${pUp.toFixed(2)} DOWN ${pDown.toFixed(2)} (either already >= ${POLY_LEAD_TRIGGER.toFixed(2)})`);
+    setLifecycle(m, "done", `Poly already >= ${POLY_LEAD_TRIGGER.toFixed(2)} on first observation`);
+  }
+  return m;
 }
 
-// State (reset when market/ticker changes)
-let position: Position | null = null;
-let lastTicker: string | null = null;
-let entryAttemptedTicker: string | null = null;
-/** One buy + sell cycle per market: when we complete a sell for this ticker, do not buy again until ticker changes */
-let cycleDoneTicker: string | null = null;
-let seenKalshiUp1 = false;
-let seenKalshiDown1 = false;
-let strategyBusy = false;
-/** Skip trading on a market if on first observation either Kalshi UP or DOWN was already 1.00 */
-const seenTickers = new Set<string>();
-const skippedTickers = new Set<string>();
+function confirmRules(): string {
+  const rules = [`${KALSHI_1_CONFIRM_TICKS} tick(s)`];
+  if (KALSHI_1_CONFIRM_MS > 0) rules.push(`${KALSHI_1_CONFIRM_MS}ms`);
+  if (KALSHI_1_CONFIRM_LAST_TRADE_CENTS > 0) rules.push(`last trade >= ${KALSHI_1_CONFIRM_LAST_TRADE_CENTS}c`);
+  return rules.join(", ");
+}
 
-function onNewTicker(ticker: string): void {
-  if (lastTicker != null && lastTicker !== ticker) {
-    position = null;
-    entryAttemptedTicker = null;
-    cycleDoneTicker = null;
-    seenKalshiUp1 = false;
-    seenKalshiDown1 = false;
+/**
+ * Debounce the Kalshi 1.00 trigger on one side; true while it is confirmed. Pending triggers that fall back below 1.00
+ * are logged as rejected (false triggers). A confirmed trigger is dropped once the ask falls below KALSHI_1_REARM_BELOW.
+ */
+function updateKalshi1Trigger(m: MarketState, side: "UP" | "DOWN", kalshi: MarketPrices, nowMs: number): boolean {
+  const askCents = side === "UP" ? kalshi.upAskCents : kalshi.downAskCents;
+  const setConfirmed = (value: boolean) => {
+    if (side === "UP") m.seenKalshiUp1 = value;
+    else m.seenKalshiDown1 = value;
+  };
+  if (side === "UP" ? m.seenKalshiUp1 : m.seenKalshiDown1) {
+    if (KALSHI_1_REARM_BELOW <= 0 || askCents / 100 >= KALSHI_1_REARM_BELOW) return true;
+    setConfirmed(false);
+    const reason = `Kalshi ${side} fell to ${(askCents / 100).toFixed(2)} < re-arm level ${KALSHI_1_REARM_BELOW.toFixed(2)}`;
+    log(m, `[Kalshi1Poly] Kalshi ${side} trigger dropped on ${m.ticker}: ${reason}; must confirm again`);
+    if (m.lifecycle === "armed" && !m.seenKalshiUp1 && !m.seenKalshiDown1) setLifecycle(m, "created", reason);
+    return false;
+  }
+  const pending = m.pendingKalshi1[side];
+  if (askCents < KALSHI_1) {
+    if (pending) {
+      m.rejectedTriggers++;
+      log(
+        m,
+        `[Kalshi1Poly] Kalshi ${side} 1.00 trigger rejected on ${m.ticker} (#${m.rejectedTriggers}): back to ${(askCents / 100).toFixed(2)} after ${pending.ticks} tick(s) / ${nowMs - pending.sinceMs}ms${KALSHI_1_CONFIRM_LAST_TRADE_CENTS > 0 ? `, last trade ${pending.lastTradeSeen ? "seen" : "not seen"}` : ""}; needs ${confirmRules()}`,
+        "warn"
+      );
+      m.pendingKalshi1[side] = null;
+    }
+    return false;
   }
-  lastTicker = ticker;
+  const t = pending ?? { sinceMs: nowMs, ticks: 0, lastTradeSeen: false };
+  m.pendingKalshi1[side] = t;
+  t.ticks++;
+  // lastPriceCents is the YES price (0 = no trade yet); DOWN trades at 100 - it.
+  if (KALSHI_1_CONFIRM_LAST_TRADE_CENTS > 0 && kalshi.lastPriceCents > 0) {
+    const sideLast = side === "UP" ? kalshi.lastPriceCents : 100 - kalshi.lastPriceCents;
+    t.lastTradeSeen = t.lastTradeSeen || sideLast >= KALSHI_1_CONFIRM_LAST_TRADE_CENTS;
+  }
+  const heldMs = nowMs - t.sinceMs;
+  if (t.ticks < KALSHI_1_CONFIRM_TICKS || heldMs < KALSHI_1_CONFIRM_MS) return false;
+  if (KALSHI_1_CONFIRM_LAST_TRADE_CENTS > 0 && !t.lastTradeSeen) return false;
+  m.pendingKalshi1[side] = null;
+  setConfirmed(true);
+  if (KALSHI_1_CONFIRM_TICKS > 1 || KALSHI_1_CONFIRM_MS > 0 || KALSHI_1_CONFIRM_LAST_TRADE_CENTS > 0) {
+    log(m, `[Kalshi1Poly] Kalshi ${side} 1.00 trigger confirmed on ${m.ticker} after ${t.ticks} tick(s) / ${heldMs}ms`);
+  }
+  return true;
+}
+
+function positionRef(m: MarketState): { strategy: string; ticker: string; conditionId: string } {
+  return { strategy: STRATEGY_NAME, ticker: m.ticker, conditionId: m.conditionId };
 }
 
+/** Write the market's position to POSITIONS_FILE, or drop it there once the position is gone. */
+function persistPosition(m: MarketState): void {
+  const ref = positionRef(m);
+  if (!m.position) {
+    removePosition(ref);
+    recordExit(ref, null);
+    return;
+  }
+  const { venue, side, tokenId, size, entryPrice, sellBelow, sellRangeBuffer, exits, peakPrice, hedge, openedAt } = m.position;
+  savePosition({
+    ...ref,
+    asset: m.asset,
+    venue,
+    side,
+    tokenId,
+    size,
+    entryPrice,
+    sellBelow,
+    sellRangeBuffer,
+    exits,
+    peakPrice,
+    closeMs: m.closeMs,
+    hedge,
+    openedAt,
+  });
+}
+
+/**
+ * Startup: rebuild the asset's markets from positions persisted before a restart. Each is checked against the proxy
+ * token balance and open CLOB orders (Kalshi positions: the Kalshi position and resting orders): still held (or a resting
+ * buy may still fill) → in-position with exit monitoring; nothing held → done (no re-entry on that market); slot already
+ * closed → left to resolution (Poly shares are redeemed, Kalshi settles itself).
+ * Hedged positions are restored as hedged; both legs keep riding to resolution.
+ */
+async function restorePositions(st: Kalshi1PolyState, s: AssetState, nowMs: number): Promise<void> {
+  const saved = loadPositions(STRATEGY_NAME).filter((x) => x.asset === s.asset);
+  for (const x of saved) {
+    const venue = x.venue ?? "polymarket";
+    const desc = `${venue === "kalshi" ? "Kalshi " : ""}${x.side} x${x.size.toFixed(2)} @ ${x.entryPrice.toFixed(2)} on ${x.ticker}`;
+    if (nowMs >= x.closeMs) {
+      if (venue === "polymarket" && !getMarketHoldings(x.conditionId)[x.tokenId]) addHolding(x.conditionId, x.tokenId, x.size);
+      log(s, `[Kalshi1Poly] Restored ${desc}: slot already closed; left to resolution${venue === "polymarket" ? " for redemption" : ""}`);
+      removePosition(x);
+      recordExit(x, null);
+      continue;
+    }
+    const m = addMarket(st, s, x.ticker, x.conditionId, x.closeMs);
+    const position: Position = {
+      venue,
+      side: x.side,
+      tokenId: x.tokenId,
+      size: x.size,
+      conditionId: x.conditionId,
+      entryPrice: x.entryPrice,
+      sellBelow: x.sellBelow ?? (venue === "kalshi" ? KALSHI_SELL_BELOW_CURVE : POLY_SELL_BELOW_CURVE),
+      sellRangeBuffer: x.sellRangeBuffer ?? POLY_SELL_RANGE_BUFFER_CURVE,
+      exits: x.exits ?? configExitPolicy(),
+      peakPrice: x.peakPrice ?? x.entryPrice,
+      hedge: x.hedge,
+      openedAt: x.openedAt,
+    };
+    let heldInfo: string;
+    let held: number;
+    let pendingBuy: boolean;
+    if (venue === "kalshi") {
+      const kalshiSide = x.side === "UP" ? "yes" : "no";
+      const [contracts, resting] = await Promise.all([getKalshiPosition(x.ticker), getKalshiRestingOrders(x.ticker)]);
+      // Kalshi reports YES contracts as positive, NO as negative; a failed lookup keeps the stored count.
+      held = contracts == null ? x.size : Math.max(0, kalshiSide === "yes" ? contracts : -contracts);
+      pendingBuy = (resting ?? []).some((o) => o.action === "buy" && o.side === kalshiSide && o.remainingCount > 0);
+      const ordersInfo = resting == null
+        ? "resting orders unknown"
+        : resting.length > 0
+          ? `resting orders: ${resting.map((o) => `${o.action} ${o.side} x${o.remainingCount}`).join(", ")}`
+          : "no resting orders";
+      heldInfo = `Kalshi position ${contracts ?? "unknown"}, ${ordersInfo}`;
+      if (held >= 1) position.size = held;
+    } else {
+      const [balance, openOrders] = await Promise.all([
+        getProxyTokenBalanceHuman(x.conditionId, x.side === "UP" ? 1 : 2),
+        getPolymarketOpenOrders(x.tokenId),
+      ]);
+      held = Math.floor(balance * 100) / 100;
+      const orders = openOrders ?? [];
+      const ordersInfo = openOrders == null
+        ? "open orders unknown"
+        : orders.length > 0
+          ? `open orders: ${orders.map((o) => `${o.side} ${o.size_matched}/${o.original_size} @ ${o.price}`).join(", ")}`
+          : "no open orders";
+      pendingBuy = orders.some((o) => o.side.toUpperCase() === "BUY");
+      heldInfo = `on-chain balance ${balance.toFixed(4)}, ${ordersInfo}`;
+      if (held >= 0.01) position.size = held;
+    }
+    if (position.hedge) {
+      m.position = position;
+      setLifecycle(m, "hedged", "restored after restart");
+      persistPosition(m);
+      log(s, `[Kalshi1Poly] Restored hedged ${desc} + Kalshi ${position.hedge.side} x${position.hedge.count} @ ${position.hedge.priceCents}c: ${heldInfo}; held to resolution`);
+      continue;
+    }
+    if (held < 0.01 && !pendingBuy) {
+      log(s, `[Kalshi1Poly] Restored ${desc}: ${heldInfo}; position no longer held`, "warn");
+      removePosition(x);
+      recordExit(x, null);
+      setLifecycle(m, "done", "position closed while the monitor was down");
+      continue;
+    }
+    m.position = position;
+    setLifecycle(m, "in-position", "restored after restart");
+    persistPosition(m);
+    log(s, `[Kalshi1Poly] Resumed exit monitoring for ${desc}: ${heldInfo} → size ${m.position.size.toFixed(2)}`);
+  }
+}
+
+/**
+ * Slot closed: the market expires and its state is dropped. A position still open is left to resolve;
+ * its holding stays recorded for auto-redeem.
+ */
+function expireMarket(st: Kalshi1PolyState, m: MarketState): void {
+  const held = m.position;
+  if (held?.venue === "kalshi") {
+    log(m, `[Kalshi1Poly] ${m.ticker} closed: carrying Kalshi ${held.side} x${held.size} to resolution (settled by Kalshi)`);
+  } else if (held) {
+    if (!getMarketHoldings(held.conditionId)[held.tokenId]) addHolding(held.conditionId, held.tokenId, held.size);
+    const hedgeInfo = held.hedge ? ` hedged with Kalshi ${held.hedge.side} x${held.hedge.count} @ ${held.hedge.priceCents}c` : "";
+    log(m, `[Kalshi1Poly] ${m.ticker} closed: carrying ${held.side} x${held.size.toFixed(2)}${hedgeInfo} (condition ${held.conditionId.slice(0, 18)}...) to resolution for redemption`);
+  }
+  if (held && !held.hedge && held.lastPrice != null) {
+    // Expected settlement from the last price: $1 per share above 0.5, nothing below.
+    const pnlUsd = ((held.lastPrice >= 0.5 ? 1 : 0) - held.entryPrice) * held.size;
+    recordCycle(st, m, held.venue, pnlUsd, `held to close, last ${held.lastPrice.toFixed(2)} vs entry ${held.entryPrice.toFixed(2)}`);
+  }
+  setLifecycle(m, "expired");
+  st.markets.delete(m.key);
+  removePosition(positionRef(m));
+  recordExit(positionRef(m), null);
+}
+
+/** Open positions across all assets of this instance (MAX_OPEN_POSITIONS applies to all of them); hedged ones still hold both legs. */
+function openPositionCount(st: Kalshi1PolyState): number {
+  let n = 0;
+  for (const m of st.markets.values()) if (m.lifecycle === "in-position" || m.lifecycle === "hedged") n++;
+  return n;
+}
+
+/** Buy; a FOK-style rejection is retried once at the fresh ask + FOK_RETRY_BUFFER if the depth check allows (maybe smaller). */
 async function placePolyBuyWithRetry(
+  m: MarketState,
   tokenId: string,
   price: number,
   size: number,
   options: { forcePlace: true; conditionId: string }
-): Promise<PlacePolyResult> {
+): Promise<{ result: PlacePolyResult; size: number }> {
   const result = await placePolymarketOrder(tokenId, price, size, options);
-  if (result == null || !("error" in result)) return result;
-  if (!/couldn't be fully filled|FOK|fill.or.kill/i.test(result.error)) return result;
+  if (result == null || !("error" in result)) return { result, size };
+  if (!/couldn't be fully filled|FOK|fill.or.kill/i.test(result.error)) return { result, size };
   await new Promise((r) => setTimeout(r, FOK_RETRY_MS));
-  const ask = await getBestAskForToken(tokenId);
-  const retryPrice = ask != null ? Math.min(POLY_PRICE_MAX, ask + FOK_RETRY_BUFFER) : POLY_PRICE_MAX;
-  const msg = `[Kalshi1Poly] FOK buy failed; retry @ ${retryPrice.toFixed(3)} (ask=${ask?.toFixed(3) ?? "?"})`;
-  appendMonitorLogWithTimestamp(msg);
-  console.log(msg);
-  return await placePolymarketOrder(tokenId, retryPrice, size, options);
+  // Re-check the fresh book against the original signal price before paying up.
+  const book = await getOrderBookForToken(tokenId);
+  const ask = book?.asks[0]?.price;
+  if (!book || ask == null) {
+    log(m, "[Kalshi1Poly] FOK buy failed; no retry: no asks in the book", "warn");
+    return { result, size };
+  }
+  const retryPrice = Math.min(POLY_PRICE_MAX, ask + FOK_RETRY_BUFFER);
+  const depth = checkBuyDepth(book.asks, price, Math.min(POLY_PRICE_MAX, retryPrice + POLY_BUY_LIMIT_BUFFER), size);
+  if (depth.size < 1) {
+    log(m, `[Kalshi1Poly] FOK buy failed; no retry @ ${retryPrice.toFixed(3)}: ${depth.detail}`, "warn");
+    return { result, size };
+  }
+  log(m, `[Kalshi1Poly] FOK buy failed; retry x${depth.size} @ ${retryPrice.toFixed(3)} (ask=${ask.toFixed(3)}; ${depth.detail})`);
+  return { result: await placePolymarketOrder(tokenId, retryPrice, depth.size, options), size: depth.size };
 }
 
 /** After successful buy: wait for settlement, fetch proxy balance, log it, set position.size to floor(balance, 2 decimals) for sell. */
-async function updatePositionSizeFromBalance(outcomeIndex: 1 | 2): Promise<void> {
+async function updatePositionSizeFromBalance(m: MarketState, outcomeIndex: 1 | 2): Promise<void> {
   await new Promise((r) => setTimeout(r, BALANCE_FETCH_DELAY_MS));
-  if (!position) return;
-  const balance = await getProxyTokenBalanceHuman(position.conditionId, outcomeIndex);
+  if (!m.position) return;
+  const balance = await getProxyTokenBalanceHuman(m.position.conditionId, outcomeIndex);
   const sellSize = Math.floor(balance * 100) / 100;
-  const msg = `[Kalshi1Poly] After buy — on-chain balance: ${balance.toFixed(4)} shares → will sell ${sellSize >= 0.01 ? sellSize.toFixed(2) : "(stored)"}`;
-  appendMonitorLogWithTimestamp(msg);
-  console.log(msg);
-  if (sellSize >= 0.01) position.size = sellSize;
+  log(m, `[Kalshi1Poly] After buy — on-chain balance: ${balance.toFixed(4)} shares → will sell ${sellSize >= 0.01 ? sellSize.toFixed(2) : "(stored)"}`);
+  if (sellSize >= 0.01) {
+    m.position.size = sellSize;
+    persistPosition(m);
+  }
 }
 
-export async function checkKalshi1PolyStrategy(p: DualMarketPrices): Promise<void> {
-  if (!p.kalshi || !p.polymarket) return;
-  if (strategyBusy) return;
-  strategyBusy = true;
-  try {
-    const ticker = p.kalshiTicker;
-    onNewTicker(ticker);
+function slotKey(schedule: SlotSchedule, nowMs: number): string {
+  return `${schedule.name}|${slotStartMs(schedule, nowMs)}`;
+}
+
+/**
+ * Entry size from the instance's sizer (position-sizing.ts, SIZING_MODE); equity (when the mode needs it) is the cached
+ * proxy balance, or the Kalshi balance for Kalshi entries. A half-open breaker caps it at its probe size (see probeSize).
+ */
+async function entrySize(
+  st: Kalshi1PolyState,
+  venue: Position["venue"],
+  price: number,
+  schedule: SlotSchedule,
+  nowMs: number,
+  gate: Extract<BreakerGate, { allowed: true }>
+): Promise<SizeResult> {
+  let equityUsd: number | null = null;
+  if (sizingNeedsEquity()) {
+    equityUsd = venue === "kalshi"
+      ? await getKalshiBalanceCents().then((cents) => cents / 100, () => null)
+      : getBalanceCache(st, schedule).usd;
+  }
+  const sized = st.sizer.size({ price, equityUsd, slot: slotKey(schedule, nowMs) });
+  const probe = probeSize(gate, venue, price);
+  if (probe == null || sized.size <= probe) return sized;
+  return { size: probe, detail: `${sized.detail}, probe ${probe} (circuit ${venue} half-open)` };
+}
 
-    const nowMs = Date.now();
-    await ensureProxyBalanceScheduledOrFetched(nowMs);
+/**
+ * Sizer (size 0), depth check, risk manager, balance guard or circuit breaker refused the entry: log the reason when its
+ * `key` changes (defaults to the reason; the depth check keys on its outcome, its numbers move every tick).
+ */
+function entrySkip(m: MarketState, side: "UP" | "DOWN", reason: string, key = reason): StrategyDecision {
+  if (m.entryNote !== key) {
+    m.entryNote = key;
+    log(m, `[Kalshi1Poly] Entry ${side} skipped: ${reason}`);
+  }
+  return decision("skip", reason, side);
+}
 
-    const kUp = p.kalshi.upAskCents / 100;
-    const kDown = p.kalshi.downAskCents / 100;
-    const polyUp = p.polymarket.upAsk;
-    const polyDown = p.polymarket.downAsk;
+/** Risk and balance checks for an entry of this notional; the refusal reason, or null to go ahead. */
+function entryBlock(notional: VenueNotional): string | null {
+  const risk = checkEntry(notional);
+  if (risk) return `risk ${risk}`;
+  const balance = checkBalanceForEntry(notional);
+  return balance ? `balance ${balance}` : null;
+}
+
+/**
+ * A finished cycle: feeds the sizer's hit rate (Kelly's win probability), the venue's breaker (losing streaks) and the
+ * risk manager's realized P/L, and releases the position's open notional.
+ */
+function recordCycle(st: Kalshi1PolyState, m: MarketState, venue: Position["venue"], pnlUsd: number, how: string): void {
+  const won = pnlUsd > 0;
+  st.sizer.recordOutcome(won);
+  st.breakers[venue].recordCycle(won);
+  recordExit(positionRef(m), pnlUsd);
+  const { wins, losses } = st.sizer.hitRate();
+  log(m, `[Kalshi1Poly] Cycle ${won ? "won" : "lost"} (${how}); hit rate ${wins}W/${losses}L`);
+}
 
-    if (position) {
-      const currentPrice = position.side === "UP" ? polyUp : polyDown;
-      const kalshiSameSide = position.side === "UP" ? kUp : kDown;
-      const effectiveSellThreshold = kalshiSameSide >= 1.0 
-        ? POLY_SELL_BELOW - POLY_SELL_RANGE_BUFFER 
-        : POLY_SELL_BELOW;
-      if (currentPrice < effectiveSellThreshold) {
-        const outcomeIndex = position.side === "UP" ? 1 : 2;
-        if (!KALSHI_1_POLY_DRY_RUN) {
-          let sold = false;
-          for (let attempt = 1; attempt <= SELL_MAX_ATTEMPTS && position && !sold; attempt++) {
-            const balanceHuman = await getProxyTokenBalanceHuman(position.conditionId, outcomeIndex);
-            let sellSize: number;
-            if (balanceHuman >= 0.01) {
-              sellSize = Math.floor(balanceHuman * 100) / 100;
-            } else {
-              sellSize = Math.max(0.01, Math.floor((position.size - 0.02) * 100) / 100);
-              if (balanceHuman === 0 && attempt === 1) {
-                appendMonitorLogWithTimestamp(`[Kalshi1Poly] On-chain balance 0; using conservative sell size ${sellSize.toFixed(2)}`);
-                console.warn("[Kalshi1Poly] On-chain balance 0; using conservative sell size", sellSize.toFixed(2));
-              }
-            }
-            const thresholdInfo = kalshiSameSide >= 1.0 
-              ? `${effectiveSellThreshold.toFixed(2)} (Kalshi ${position.side}=1.00, buffer applied)` 
-              : `${effectiveSellThreshold.toFixed(2)}`;
-            const msg = `[Kalshi1Poly] Exit: ${position.side} price ${currentPrice.toFixed(2)} < ${thresholdInfo}; selling ${sellSize.toFixed(2)} (balance ${balanceHuman.toFixed(4)}) attempt ${attempt}/${SELL_MAX_ATTEMPTS}`;
-            appendMonitorLogWithTimestamp(msg);
-            console.log(msg);
-            if (sellSize < 0.01) {
-              appendMonitorLogWithTimestamp("[Kalshi1Poly] Sell skipped: balance and stored size < 0.01 (one cycle done for this market)");
-              console.warn("[Kalshi1Poly] Sell skipped: balance and stored size < 0.01");
-              cycleDoneTicker = ticker;
-              position = null;
-              break;
-            }
-            const result = await sellPolymarketOrder(position.tokenId, sellSize, {
-              forcePlace: true,
-              conditionId: position.conditionId,
-            });
-            if (result && !("error" in result)) {
-              const conditionId = position.conditionId;
-              appendMonitorLogWithTimestamp(`[Kalshi1Poly] Sell successful: ${sellSize.toFixed(2)} shares (one cycle done for this market)`);
-              console.log("[Kalshi1Poly] Sell successful:", sellSize.toFixed(2), "shares (one cycle done for this market)");
-              cycleDoneTicker = ticker;
-              position = null;
-              sold = true;
-              clearMarketHoldings(conditionId);
-            } else if (result && "error" in result) {
-              appendMonitorLogWithTimestamp(`[Kalshi1Poly] Sell failed (attempt ${attempt}): ${result.error}`);
-              console.error("[Kalshi1Poly] Sell failed (attempt " + attempt + "):", result.error);
-              if (attempt < SELL_MAX_ATTEMPTS) {
-                appendMonitorLogWithTimestamp(`[Kalshi1Poly] Will retry in ${SELL_RETRY_DELAY_MS}ms (attempt ${attempt}/${SELL_MAX_ATTEMPTS})`);
-                console.log("[Kalshi1Poly] Will retry in", SELL_RETRY_DELAY_MS, "ms (attempt", attempt + "/" + SELL_MAX_ATTEMPTS + ")");
-                await new Promise((r) => setTimeout(r, SELL_RETRY_DELAY_MS));
-              } else {
-                appendMonitorLogWithTimestamp("[Kalshi1Poly] Clearing position after max sell attempts (one cycle done for this market)");
-                console.error("[Kalshi1Poly] Clearing position after max sell attempts");
-                cycleDoneTicker = ticker;
-                position = null;
-                break;
-              }
-            }
-          }
+/**
+ * Method 1 entry on one side: buy Poly same side, record the position and holding. The venue's circuit breaker gates
+ * the entry, and the size is checked against the book first (slippage-check.ts): shrunk or skipped when its VWAP would
+ * slip more than SLIPPAGE_MAX past the signal price or the depth within the limit is short.
+ */
+async function enterSide(
+  st: Kalshi1PolyState,
+  m: MarketState,
+  kalshi: MarketPrices,
+  poly: PolymarketPrices,
+  side: "UP" | "DOWN",
+  schedule: SlotSchedule,
+  nowMs: number
+): Promise<StrategyDecision> {
+  const kalshiPrice = (side === "UP" ? kalshi.upAskCents : kalshi.downAskCents) / 100;
+  const polyPrice = side === "UP" ? poly.upAsk : poly.downAsk;
+  const tokenId = side === "UP" ? poly.upTokenId : poly.downTokenId;
+  const gate = st.breakers.polymarket.gate(nowMs);
+  if (!gate.allowed) return entrySkip(m, side, gate.reason);
+  const sized = await entrySize(st, "polymarket", polyPrice, schedule, nowMs, gate);
+  if (sized.size < 1) return entrySkip(m, side, `sizing ${sized.detail}`);
+  const book = side === "UP" ? poly.upBook : poly.downBook;
+  const depth = checkBuyDepth(book.asks, polyPrice, Math.min(POLY_PRICE_MAX, polyPrice + POLY_BUY_LIMIT_BUFFER), sized.size);
+  if (depth.size < 1) return entrySkip(m, side, `depth ${depth.detail}`, `depth ${depth.outcome}`);
+  let size = depth.size;
+  const blocked = entryBlock({ polymarket: polyPrice * size });
+  if (blocked) return entrySkip(m, side, blocked);
+  log(m, `[Kalshi1Poly] Entry ${side} (Method 1): Kalshi ${side} ${kalshiPrice.toFixed(2)} Poly ${side} ${polyPrice.toFixed(2)}; buy Poly ${side} x${size} (${sized.detail}; ${depth.detail})`);
+  const order: OrderEvent = { venue: "polymarket", action: "buy", side, instrument: tokenId, price: polyPrice, size, status: "submitted" };
+  if (KALSHI_1_POLY_DRY_RUN) {
+    recordOrder(st, m, { ...order, dryRun: true });
+    return decision("enter", "Method 1 (dry run)", side);
+  }
+  const placed = await placePolyBuyWithRetry(m, tokenId, polyPrice, size, {
+    forcePlace: true,
+    conditionId: poly.conditionId,
+  });
+  const result = placed.result;
+  size = placed.size;
+  if (result && !("error" in result)) {
+    recordOrder(st, m, { ...order, size, status: "ok" });
+    st.sizer.commit(slotKey(schedule, nowMs), polyPrice * size);
+    recordEntry(positionRef(m), m.closeMs, { polymarket: polyPrice * size });
+    m.position = {
+      venue: "polymarket",
+      side,
+      tokenId,
+      size,
+      conditionId: poly.conditionId,
+      entryPrice: polyPrice,
+      sellBelow: POLY_SELL_BELOW_CURVE,
+      sellRangeBuffer: POLY_SELL_RANGE_BUFFER_CURVE,
+      exits: configExitPolicy(),
+      peakPrice: polyPrice,
+      openedAt: new Date().toISOString(),
+    };
+    persistPosition(m);
+    setLifecycle(m, "in-position", `${side} x${size} @ ${polyPrice.toFixed(2)}`);
+    addHolding(poly.conditionId, tokenId, size);
+    // Other assets size from the same balance; account for what this buy spent.
+    for (const cache of st.balanceCaches.values()) {
+      if (cache.usd != null) cache.usd = Math.max(0, cache.usd - polyPrice * size);
+    }
+    await updatePositionSizeFromBalance(m, side === "UP" ? 1 : 2);
+    return decision("enter", "Method 1", side);
+  }
+  if (result && "error" in result) {
+    recordOrder(st, m, { ...order, status: "failed", error: result.error, rejectedLocally: result.local });
+    log(m, `[Kalshi1Poly] Buy ${side} failed (will retry next tick): ${result.error}`);
+    return decision("enter", `Method 1; buy failed: ${result.error}`, side);
+  }
+  return decision("enter", "Method 1; order not placed", side);
+}
+
+/**
+ * Mirrored Method 1 entry on one side (KALSHI_1_POLY_KALSHI_ENTRY) covers the slots Polymarket leads: Poly same-side ask
+ * >= POLY_LEAD_TRIGGER while Kalshi same-side is still <= KALSHI_BUY_MAX, so buy that side on Kalshi (sized and
+ * depth-checked like enterSide, limit ask + KALSHI_BUY_LIMIT_BUFFER_CENTS) and record the position. The buy is IOC:
+ * the position is the count that filled at placement, entered at their average fill price, and nothing is left resting.
+ * No holding: Kalshi settles it at resolution.
+ */
+async function enterKalshiSide(
+  st: Kalshi1PolyState,
+  m: MarketState,
+  kalshi: MarketPrices,
+  poly: PolymarketPrices,
+  side: "UP" | "DOWN",
+  schedule: SlotSchedule,
+  nowMs: number
+): Promise<StrategyDecision> {
+  const askCents = side === "UP" ? kalshi.upAskCents : kalshi.downAskCents;
+  const polyPrice = side === "UP" ? poly.upAsk : poly.downAsk;
+  const kalshiSide = side === "UP" ? "yes" : "no";
+  const priceCents = Math.min(99, askCents + KALSHI_BUY_LIMIT_BUFFER_CENTS);
+  const gate = st.breakers.kalshi.gate(nowMs);
+  if (!gate.allowed) return entrySkip(m, side, gate.reason);
+  const sized = await entrySize(st, "kalshi", priceCents / 100, schedule, nowMs, gate);
+  if (sized.size < 1) return entrySkip(m, side, `sizing ${sized.detail}`);
+  const book = side === "UP" ? kalshi.upBook : kalshi.downBook;
+  const depth = checkBuyDepth(levelsInDollars(book.asks), askCents / 100, priceCents / 100, sized.size);
+  if (depth.size < 1) return entrySkip(m, side, `depth ${depth.detail}`, `depth ${depth.outcome}`);
+  const count = depth.size;
+  const blocked = entryBlock({ kalshi: (priceCents / 100) * count });
+  if (blocked) return entrySkip(m, side, blocked);
+  log(m, `[Kalshi1Poly] Entry ${side} (mirrored Method 1): Poly ${side} ${polyPrice.toFixed(2)} Kalshi ${side} ${(askCents / 100).toFixed(2)}; buy Kalshi ${kalshiSide} x${count} @ ${priceCents}c (${sized.detail}; ${depth.detail})`);
+  const order: OrderEvent = { venue: "kalshi", action: "buy", side, instrument: m.ticker, price: priceCents / 100, size: count, status: "submitted" };
+  if (KALSHI_1_POLY_DRY_RUN) {
+    recordOrder(st, m, { ...order, dryRun: true });
+    return decision("enter", "mirrored Method 1 (dry run)", side);
+  }
+  const result = await placeOrder(m.ticker, kalshiSide, count, priceCents, { arbLive: true, timeInForce: "immediate_or_cancel" });
+  if ("error" in result) {
+    recordOrder(st, m, { ...order, status: "failed", error: result.error });
+    log(m, `[Kalshi1Poly] Kalshi buy ${side} failed (will retry next tick): ${result.error}`);
+    return decision("enter", `mirrored Method 1; buy failed: ${result.error}`, side);
+  }
+  if (result.filledCount < 1) {
+    recordOrder(st, m, { ...order, status: "failed", error: "nothing filled (IOC)" });
+    log(m, `[Kalshi1Poly] Kalshi buy ${side} @ ${priceCents}c filled nothing (will retry next tick)`);
+    return decision("enter", "mirrored Method 1; nothing filled", side);
+  }
+  const filled = result.filledCount;
+  const fillPrice = result.avgPriceCents / 100;
+  recordOrder(st, m, { ...order, size: filled, price: fillPrice, status: "ok" });
+  st.sizer.commit(slotKey(schedule, nowMs), fillPrice * filled);
+  recordEntry(positionRef(m), m.closeMs, { kalshi: fillPrice * filled });
+  m.position = {
+    venue: "kalshi",
+    side,
+    tokenId: m.ticker,
+    size: filled,
+    conditionId: poly.conditionId,
+    entryPrice: fillPrice,
+    sellBelow: KALSHI_SELL_BELOW_CURVE,
+    sellRangeBuffer: POLY_SELL_RANGE_BUFFER_CURVE,
+    exits: configExitPolicy(),
+    peakPrice: fillPrice,
+    openedAt: new Date().toISOString(),
+  };
+  persistPosition(m);
+  setLifecycle(m, "in-position", `Kalshi ${side} x${filled}${filled < count ? ` of ${count}` : ""} @ ${result.avgPriceCents.toFixed(1)}c (limit ${priceCents}c, order ${result.orderId})`);
+  return decision("enter", "mirrored Method 1", side);
+}
+
+/**
+ * Hedge the held shares: buy the opposite side on Kalshi, one contract per whole share (at least ARB_KALSHI_MIN), limit
+ * ask + ARB_PRICE_BUFFER. Each pair then pays $1 whichever side wins; only worth it while that beats the Poly bid.
+ * The order is IOC: the hedge is the count that filled at placement (maybe fewer than asked) at their average fill
+ * price, nothing is left resting.
+ */
+async function hedgeOnKalshi(
+  st: Kalshi1PolyState,
+  m: MarketState,
+  kalshi: MarketPrices,
+  polyBid: number
+): Promise<{ hedge: HedgeLeg } | { error: string }> {
+  const position = m.position!;
+  const hedgeSide = position.side === "UP" ? "DOWN" : "UP";
+  const askCents = hedgeSide === "UP" ? kalshi.upAskCents : kalshi.downAskCents;
+  const count = Math.floor(position.size);
+  if (count < ARB_KALSHI_MIN) return { error: `${count} contracts below ARB_KALSHI_MIN ${ARB_KALSHI_MIN}` };
+  if (!(askCents > 0 && askCents < 100)) return { error: `no Kalshi ${hedgeSide} ask` };
+  const priceCents = Math.min(99, askCents + Math.round(ARB_PRICE_BUFFER * 100));
+  const locked = 1 - priceCents / 100;
+  if (locked <= polyBid) {
+    return { error: `Kalshi ${hedgeSide} @ ${priceCents}c locks ${locked.toFixed(2)}/share <= Poly bid ${polyBid.toFixed(2)}` };
+  }
+  const unaffordable = checkAffordable({ kalshi: (priceCents / 100) * count });
+  if (unaffordable) return { error: unaffordable };
+  const side = hedgeSide === "UP" ? "yes" : "no";
+  const order: OrderEvent = {
+    venue: "kalshi",
+    action: "buy",
+    side: hedgeSide,
+    instrument: m.ticker,
+    price: priceCents / 100,
+    size: count,
+    status: "submitted",
+  };
+  let orderId = "dry-run";
+  let filled = count;
+  let fillPriceCents = priceCents;
+  if (KALSHI_1_POLY_DRY_RUN) {
+    recordOrder(st, m, { ...order, dryRun: true });
+  } else {
+    const result = await placeOrder(m.ticker, side, count, priceCents, { arbLive: true, timeInForce: "immediate_or_cancel" });
+    if ("error" in result) {
+      recordOrder(st, m, { ...order, status: "failed", error: result.error });
+      return { error: `Kalshi order failed: ${result.error}` };
+    }
+    if (result.filledCount < 1) {
+      recordOrder(st, m, { ...order, status: "failed", error: "nothing filled (IOC)" });
+      return { error: `Kalshi ${hedgeSide} IOC @ ${priceCents}c filled nothing` };
+    }
+    recordOrder(st, m, { ...order, size: result.filledCount, price: result.avgPriceCents / 100, status: "ok" });
+    orderId = result.orderId;
+    filled = result.filledCount;
+    fillPriceCents = result.avgPriceCents;
+  }
+  return { hedge: { ticker: m.ticker, side, count: filled, priceCents, fillPriceCents, orderId, placedAt: new Date().toISOString() } };
+}
+
+/** Sell shares a partly filled hedge left without a Kalshi contract (one FAK attempt); true once sold. */
+async function sellUnhedgedShares(st: Kalshi1PolyState, m: MarketState, size: number, bidPrice: number): Promise<boolean> {
+  const position = m.position!;
+  const order: OrderEvent = {
+    venue: "polymarket",
+    action: "sell",
+    side: position.side,
+    instrument: position.tokenId,
+    price: bidPrice,
+    size,
+    status: "submitted",
+  };
+  const result = await sellPolymarketOrder(position.tokenId, size, { forcePlace: true, conditionId: position.conditionId });
+  if (result && !("error" in result)) {
+    recordOrder(st, m, { ...order, status: "ok" });
+    position.size = Math.floor((position.size - size) * 100) / 100;
+    persistPosition(m);
+    return true;
+  }
+  const error = result ? result.error : "Polymarket not configured";
+  recordOrder(st, m, { ...order, status: "failed", error, rejectedLocally: result?.local });
+  log(m, `[Kalshi1Poly] Sell of ${size.toFixed(2)} unhedged shares failed: ${error}; they ride to resolution unhedged`, "error");
+  return false;
+}
+
+function configExitPolicy(): ExitPolicy {
+  return { trailingStop: POLY_TRAILING_STOP, takeProfit: POLY_TAKE_PROFIT, maxDrawdown: POLY_MAX_DRAWDOWN };
+}
+
+type ExitRule = "take-profit" | "floor" | "trailing-stop" | "max-drawdown";
+
+interface ExitTrigger {
+  rule: ExitRule;
+  /** Human-readable comparison, e.g. "ask 0.78 <= peak 0.93 - 0.10" */
+  detail: string;
+}
+
+/**
+ * First exit rule that fires for `price`, or null to keep holding: a take-profit level, the floor (the position's
+ * sellBelow curve over the seconds left), a trailing stop from the peak or a max drawdown from entry. While the other
+ * venue still pins the side (Kalshi same-side 1.00, or Poly same-side >= POLY_LEAD_TRIGGER for a Kalshi position) the
+ * range buffer lowers the floor and widens the trailing-stop and drawdown distances alike; take-profit is unaffected.
+ */
+function exitTrigger(position: Position, price: number, otherVenuePinned: boolean, secondsLeft: number): ExitTrigger | null {
+  const buffer = otherVenuePinned ? evalThresholdCurve(position.sellRangeBuffer, secondsLeft) : 0;
+  const pinnedInfo = position.venue === "kalshi" ? `Poly ${position.side}>=${POLY_LEAD_TRIGGER.toFixed(2)}` : `Kalshi ${position.side}=1.00`;
+  const bufferInfo = otherVenuePinned ? ` (${pinnedInfo}, buffer ${buffer.toFixed(2)} applied)` : "";
+  const px = `${position.venue === "kalshi" ? "Kalshi bid" : POLY_EXIT_PRICE_SOURCE} ${price.toFixed(2)}`;
+  const { takeProfit, trailingStop, maxDrawdown } = position.exits;
+  if (takeProfit > 0 && price >= takeProfit) {
+    return { rule: "take-profit", detail: `${px} >= ${takeProfit.toFixed(2)}` };
+  }
+  const floor = evalThresholdCurve(position.sellBelow, secondsLeft) - buffer;
+  if (price < floor) {
+    return { rule: "floor", detail: `${px} < ${floor.toFixed(2)}${bufferInfo}` };
+  }
+  if (trailingStop > 0 && price <= position.peakPrice - trailingStop - buffer) {
+    return { rule: "trailing-stop", detail: `${px} <= peak ${position.peakPrice.toFixed(2)} - ${(trailingStop + buffer).toFixed(2)}${bufferInfo}` };
+  }
+  if (maxDrawdown > 0 && price <= position.entryPrice - maxDrawdown - buffer) {
+    return { rule: "max-drawdown", detail: `${px} <= entry ${position.entryPrice.toFixed(2)} - ${(maxDrawdown + buffer).toFixed(2)}${bufferInfo}` };
+  }
+  return null;
+}
+
+/**
+ * Exit rules for an open position (exitTrigger): sell into the bid once one fires, or with KALSHI_1_POLY_HEDGE buy the
+ * opposite side on Kalshi instead (hedgeOnKalshi); the hedged position is then held to resolution. A circuit breaker
+ * that opens during the sell loop stops it and backs the sell off (BREAKER_SELL_BACKOFF_MS) instead of spinning.
+ */
+async function manageExit(st: Kalshi1PolyState, m: MarketState, p: DualMarketPrices): Promise<StrategyDecision> {
+  const position = m.position!;
+  const poly = p.polymarket!;
+  const kUp = p.kalshi!.upAskCents / 100;
+  const kDown = p.kalshi!.downAskCents / 100;
+  const currentPrice = polyExitPrice(poly, position.side);
+  const bidPrice = position.side === "UP" ? poly.upBid : poly.downBid;
+  const bidSize = position.side === "UP" ? poly.upBidSize : poly.downBidSize;
+  const kalshiSameSide = position.side === "UP" ? kUp : kDown;
+  const secondsLeft = Math.max(0, (m.closeMs - Date.now()) / 1000);
+  position.lastPrice = currentPrice;
+  if (currentPrice > position.peakPrice) {
+    position.peakPrice = currentPrice;
+    persistPosition(m);
+  }
+  const trigger = exitTrigger(position, currentPrice, kalshiSameSide >= 1.0, secondsLeft);
+  if (!trigger) {
+    return decision("hold", `${POLY_EXIT_PRICE_SOURCE} ${currentPrice.toFixed(2)}, peak ${position.peakPrice.toFixed(2)}; no exit rule fired (${Math.round(secondsLeft)}s left)`, position.side);
+  }
+  const triggerInfo = `${trigger.rule}: ${trigger.detail}, ${Math.round(secondsLeft)}s left`;
+  // Hedging locks a loss-limiting payout; a take-profit always sells.
+  if (KALSHI_1_POLY_HEDGE !== "off" && trigger.rule !== "take-profit") {
+    const result = await hedgeOnKalshi(st, m, p.kalshi!, bidPrice);
+    if ("hedge" in result) {
+      const { hedge } = result;
+      position.hedge = hedge;
+      persistPosition(m);
+      const hedgeCents = hedge.fillPriceCents ?? hedge.priceCents;
+      setLifecycle(m, "hedged", `Kalshi ${hedge.side} x${hedge.count} @ ${hedgeCents.toFixed(1)}c`);
+      const lockedPerPair = 1 - position.entryPrice - hedgeCents / 100;
+      let pnlUsd = lockedPerPair * hedge.count;
+      let how = `hedged, locked ${lockedPerPair.toFixed(2)}/pair`;
+      // A partly filled hedge leaves whole shares without a contract: the exit fired, so sell those into the bid.
+      const partial = Math.floor((position.size - hedge.count) * 100) / 100;
+      if (partial >= 1) {
+        log(m, `[Kalshi1Poly] Hedge filled ${hedge.count} of ${Math.floor(position.size)}; selling ${partial.toFixed(2)} unhedged shares into bid ${bidPrice.toFixed(2)}`, "warn");
+        if (await sellUnhedgedShares(st, m, partial, bidPrice)) {
+          pnlUsd += (bidPrice - position.entryPrice) * partial;
+          how += `, sold ${partial.toFixed(2)} unhedged into bid ${bidPrice.toFixed(2)}`;
+        }
+      }
+      recordCycle(st, m, position.venue, pnlUsd, how);
+      const unhedged = position.size - hedge.count;
+      log(m, `[Kalshi1Poly] Exit hedge (${triggerInfo}); holding ${position.size.toFixed(2)} Poly ${position.side} (entry ${position.entryPrice.toFixed(2)}) + Kalshi ${hedge.side} x${hedge.count} @ ${hedgeCents.toFixed(1)}c (limit ${hedge.priceCents}c) → pays $1/pair, locked ${lockedPerPair.toFixed(2)}/pair${unhedged >= 0.01 ? ` (${unhedged.toFixed(2)} shares unhedged)` : ""}`);
+      return decision("exit", `${trigger.rule}; hedged on Kalshi @ ${hedgeCents.toFixed(1)}c`, position.side);
+    }
+    if (result.error !== m.hedgeError) {
+      m.hedgeError = result.error;
+      log(m, `[Kalshi1Poly] Hedge not placed: ${result.error}${KALSHI_1_POLY_HEDGE === "hedge" ? "; selling on Poly" : "; holding (hedge-only)"}`, "warn");
+    }
+    if (KALSHI_1_POLY_HEDGE === "hedge-only") return decision("hold", `hedge not possible: ${result.error}`, position.side);
+  }
+  const outcomeIndex = position.side === "UP" ? 1 : 2;
+  const backoffMs = m.sellBackoffUntilMs - Date.now();
+  if (backoffMs > 0 && !KALSHI_1_POLY_DRY_RUN) {
+    return decision("hold", `${trigger.rule}; sell backing off ${Math.ceil(backoffMs / 1000)}s (circuit polymarket ${st.breakers.polymarket.state()})`, position.side);
+  }
+  if (!KALSHI_1_POLY_DRY_RUN) {
+    let sold = false;
+    for (let attempt = 1; attempt <= SELL_MAX_ATTEMPTS && m.position && !sold; attempt++) {
+      const balanceHuman = await getProxyTokenBalanceHuman(position.conditionId, outcomeIndex);
+      let sellSize: number;
+      if (balanceHuman >= 0.01) {
+        sellSize = Math.floor(balanceHuman * 100) / 100;
+      } else {
+        sellSize = Math.max(0.01, Math.floor((position.size - 0.02) * 100) / 100);
+        if (balanceHuman === 0 && attempt === 1) {
+          log(m, `[Kalshi1Poly] On-chain balance 0; using conservative sell size ${sellSize.toFixed(2)}`, "warn");
+        }
+      }
+      const sellOrder: OrderEvent = {
+        venue: "polymarket",
+        action: "sell",
+        side: position.side,
+        instrument: position.tokenId,
+        price: bidPrice,
+        size: sellSize,
+        status: "submitted",
+        attempt,
+      };
+      log(m, `[Kalshi1Poly] Exit ${position.side} (${triggerInfo}); selling ${sellSize.toFixed(2)} (balance ${balanceHuman.toFixed(4)}) into bid ${bidPrice.toFixed(2)} x${bidSize} attempt ${attempt}/${SELL_MAX_ATTEMPTS}`);
+      if (sellSize < 0.01) {
+        log(m, "[Kalshi1Poly] Sell skipped: balance and stored size < 0.01 (one cycle done for this market)", "warn");
+        m.position = null;
+        persistPosition(m);
+        setLifecycle(m, "done", "nothing left to sell");
+        break;
+      }
+      const result = await sellPolymarketOrder(position.tokenId, sellSize, {
+        forcePlace: true,
+        conditionId: position.conditionId,
+      });
+      if (result && !("error" in result)) {
+        recordOrder(st, m, { ...sellOrder, status: "ok" });
+        log(m, `[Kalshi1Poly] Sell successful: ${sellSize.toFixed(2)} shares (one cycle done for this market)`);
+        m.position = null;
+        persistPosition(m);
+        setLifecycle(m, "exited", `sold ${sellSize.toFixed(2)}`);
+        recordCycle(st, m, "polymarket", (bidPrice - position.entryPrice) * sellSize, `sold into bid ${bidPrice.toFixed(2)} vs entry ${position.entryPrice.toFixed(2)}`);
+        sold = true;
+        clearMarketHoldings(position.conditionId);
+      } else if (result && "error" in result) {
+        recordOrder(st, m, { ...sellOrder, status: "failed", error: result.error, rejectedLocally: result.local });
+        log(m, `[Kalshi1Poly] Sell failed (attempt ${attempt}): ${result.error}`, "error");
+        if (st.breakers.polymarket.state() === "open") {
+          m.sellBackoffUntilMs = Date.now() + BREAKER_SELL_BACKOFF_MS;
+          log(m, `[Kalshi1Poly] Circuit polymarket open; holding and retrying the sell in ${Math.round(BREAKER_SELL_BACKOFF_MS / 1000)}s`, "warn");
+          break;
+        }
+        if (attempt < SELL_MAX_ATTEMPTS) {
+          log(m, `[Kalshi1Poly] Will retry in ${SELL_RETRY_DELAY_MS}ms (attempt ${attempt}/${SELL_MAX_ATTEMPTS})`);
+          await new Promise((r) => setTimeout(r, SELL_RETRY_DELAY_MS));
         } else {
-          cycleDoneTicker = ticker;
-          position = null;
+          log(m, "[Kalshi1Poly] Clearing position after max sell attempts (one cycle done for this market)", "error");
+          m.position = null;
+          persistPosition(m);
+          setLifecycle(m, "done", "sell failed after max attempts");
+          break;
         }
-        return;
       }
-      return;
     }
+  } else {
+    recordOrder(st, m, {
+      venue: "polymarket",
+      action: "sell",
+      side: position.side,
+      instrument: position.tokenId,
+      price: bidPrice,
+      size: position.size,
+      status: "submitted",
+      dryRun: true,
+    });
+    m.position = null;
+    setLifecycle(m, "exited", "dry run");
+  }
+  return decision("exit", triggerInfo, position.side);
+}
 
-    if (!seenTickers.has(ticker)) {
-      seenTickers.add(ticker);
-      if (kUp >= 1 || kDown >= 1) {
-        skippedTickers.add(ticker);
-        appendMonitorLogWithTimestamp(
-          `[Kalshi1Poly] Skip market ${ticker}: initial Kalshi UP ${kUp.toFixed(2)} DOWN ${kDown.toFixed(2)} (either already 1.00)`
-        );
-        console.log("[Kalshi1Poly] Skip market (either side already 1.00):", ticker);
+/**
+ * Cancel the market's resting Kalshi buys on one side, so nothing fills after the position is sold or given up
+ * (entries are IOC; a GTC buy can only be left from a position restored after a restart).
+ */
+async function cancelRestingKalshiBuys(m: MarketState, kalshiSide: "yes" | "no"): Promise<void> {
+  const resting = await getKalshiRestingOrders(m.ticker);
+  for (const o of resting ?? []) {
+    if (o.action !== "buy" || o.side !== kalshiSide || o.remainingCount <= 0) continue;
+    log(m, `[Kalshi1Poly] Cancelling resting Kalshi buy ${o.side} x${o.remainingCount} (${o.orderId}) before the exit`, "warn");
+    await cancelKalshiOrder(o.orderId);
+  }
+}
+
+/**
+ * Exit rules for a Kalshi position (mirrored entry), on the Kalshi same-side bid: sell the contracts held (1c FOK
+ * via placeSellOrder) once one fires, after cancelling any resting buy on that side. Holds while Kalshi has no bid,
+ * since the sell could not fill.
+ */
+async function manageKalshiExit(st: Kalshi1PolyState, m: MarketState, p: DualMarketPrices): Promise<StrategyDecision> {
+  const position = m.position!;
+  const kalshi = p.kalshi!;
+  const bidCents = position.side === "UP" ? kalshi.upBidCents : kalshi.downBidCents;
+  const bidPrice = bidCents / 100;
+  const polySameSide = position.side === "UP" ? p.polymarket!.upAsk : p.polymarket!.downAsk;
+  const secondsLeft = Math.max(0, (m.closeMs - Date.now()) / 1000);
+  if (bidCents <= 0) return decision("hold", `no Kalshi ${position.side} bid (${Math.round(secondsLeft)}s left)`, position.side);
+  position.lastPrice = bidPrice;
+  if (bidPrice > position.peakPrice) {
+    position.peakPrice = bidPrice;
+    persistPosition(m);
+  }
+  const trigger = exitTrigger(position, bidPrice, polySameSide >= POLY_LEAD_TRIGGER, secondsLeft);
+  if (!trigger) {
+    return decision("hold", `Kalshi bid ${bidPrice.toFixed(2)}, peak ${position.peakPrice.toFixed(2)}; no exit rule fired (${Math.round(secondsLeft)}s left)`, position.side);
+  }
+  const triggerInfo = `${trigger.rule}: ${trigger.detail}, ${Math.round(secondsLeft)}s left`;
+  const kalshiSide = position.side === "UP" ? "yes" : "no";
+  const sellOrder: OrderEvent = {
+    venue: "kalshi",
+    action: "sell",
+    side: position.side,
+    instrument: m.ticker,
+    price: bidPrice,
+    size: position.size,
+    status: "submitted",
+  };
+  if (KALSHI_1_POLY_DRY_RUN) {
+    recordOrder(st, m, { ...sellOrder, dryRun: true });
+    m.position = null;
+    setLifecycle(m, "exited", "dry run");
+    return decision("exit", triggerInfo, position.side);
+  }
+  const backoffMs = m.sellBackoffUntilMs - Date.now();
+  if (backoffMs > 0) {
+    return decision("hold", `${trigger.rule}; Kalshi sell backing off ${Math.ceil(backoffMs / 1000)}s (circuit kalshi ${st.breakers.kalshi.state()})`, position.side);
+  }
+  await cancelRestingKalshiBuys(m, kalshiSide);
+  for (let attempt = 1; attempt <= SELL_MAX_ATTEMPTS; attempt++) {
+    const contracts = await getKalshiPosition(m.ticker);
+    // YES contracts are positive, NO negative; a failed lookup sells the stored count.
+    const count = contracts == null ? Math.floor(position.size) : Math.max(0, kalshiSide === "yes" ? contracts : -contracts);
+    if (count < 1) {
+      log(m, `[Kalshi1Poly] Kalshi sell skipped: no ${kalshiSide} contracts held (position ${contracts}); one cycle done for this market`, "warn");
+      m.position = null;
+      persistPosition(m);
+      setLifecycle(m, "done", "nothing left to sell");
+      break;
+    }
+    log(m, `[Kalshi1Poly] Exit Kalshi ${position.side} (${triggerInfo}); selling ${count} ${kalshiSide} into bid ${bidPrice.toFixed(2)} attempt ${attempt}/${SELL_MAX_ATTEMPTS}`);
+    const result = await placeSellOrder(m.ticker, kalshiSide, count, { arbLive: true });
+    if (!("error" in result)) {
+      recordOrder(st, m, { ...sellOrder, size: count, status: "ok", attempt });
+      log(m, `[Kalshi1Poly] Kalshi sell successful: ${count} contracts (one cycle done for this market)`);
+      m.position = null;
+      persistPosition(m);
+      setLifecycle(m, "exited", `sold ${count} on Kalshi`);
+      recordCycle(st, m, "kalshi", (bidPrice - position.entryPrice) * count, `sold into Kalshi bid ${bidPrice.toFixed(2)} vs entry ${position.entryPrice.toFixed(2)}`);
+      break;
+    }
+    recordOrder(st, m, { ...sellOrder, size: count, status: "failed", error: result.error, attempt });
+    log(m, `[Kalshi1Poly] Kalshi sell failed (attempt ${attempt}): ${result.error}`, "error");
+    if (st.breakers.kalshi.state() === "open") {
+      m.sellBackoffUntilMs = Date.now() + BREAKER_SELL_BACKOFF_MS;
+      log(m, `[Kalshi1Poly] Circuit kalshi open; holding and retrying the Kalshi sell in ${Math.round(BREAKER_SELL_BACKOFF_MS / 1000)}s`, "warn");
+      break;
+    }
+    if (attempt < SELL_MAX_ATTEMPTS) {
+      await new Promise((r) => setTimeout(r, SELL_RETRY_DELAY_MS));
+    } else {
+      log(m, "[Kalshi1Poly] Clearing Kalshi position after max sell attempts (one cycle done for this market)", "error");
+      m.position = null;
+      persistPosition(m);
+      setLifecycle(m, "done", "Kalshi sell failed after max attempts");
+    }
+  }
+  return decision("exit", triggerInfo, position.side);
+}
+
+/**
+ * Run the strategy on one tick; returns what it did (recorded with the tick by the runner). Nothing trades while either
+ * feed is stale; entries also need a verified MarketPair (both venues on the same window) and an open trading calendar
+ * (trading-calendar.ts), while exits keep running. polyBuyMin is a curve over the seconds left (POLY_BUY_MIN_CURVE).
+ * Each direction is switched on its own (KALSHI_1_POLY_POLY_ENTRY / KALSHI_1_POLY_KALSHI_ENTRY).
+ */
+async function checkKalshi1PolyStrategy(st: Kalshi1PolyState, p: DualMarketPrices): Promise<StrategyDecision> {
+  if (!p.kalshi || !p.polymarket) return decision("none", "waiting for both venues");
+  const s = getAssetState(st, p.asset);
+  if (s.busy) return decision("busy", "previous tick still running");
+  const nowMs = Date.now();
+  evictClosedMarkets(st, nowMs, (m) => expireMarket(st, m));
+  s.busy = true;
+  try {
+    const m = getMarketState(st, s, p, nowMs);
+    await ensureProxyBalanceScheduledOrFetched(st, p.schedule, nowMs);
+
+    // Do not act on quotes from a stale feed (entries and exits alike).
+    const stale = staleFeeds(p.asset);
+    if (stale.length > 0) {
+      if (!s.feedsStale) {
+        const reasons = stale.map((h) => `${h.venue}: ${h.reason ?? "stale"}`).join("; ");
+        log(s, `[Kalshi1Poly] Feed stale, suppressing entries and exits${m.position ? ` (holding ${m.position.side})` : ""}: ${reasons}`, "warn");
       }
+      s.feedsStale = true;
+      return decision("skip", `feed stale: ${stale.map((h) => h.venue).join(", ")}`);
+    }
+    if (s.feedsStale) log(s, "[Kalshi1Poly] Feeds fresh again; trading resumed");
+    s.feedsStale = false;
+
+    if (m.lifecycle === "in-position" && m.position) {
+      return m.position.venue === "kalshi" ? await manageKalshiExit(st, m, p) : await manageExit(st, m, p);
+    }
+    if (m.lifecycle === "hedged") return decision("hold", "hedged on Kalshi; both legs held to resolution", m.position?.side);
+    if (m.lifecycle === "exited") return decision("none", "cycle done for this market");
+    if (m.lifecycle === "done") return decision("skip", m.doneReason ?? "done");
+    if (m.lifecycle === "expired") return decision("none", "market expired");
+
+    // Never enter unless both venues are verified to resolve on the same window.
+    if (!p.pair?.matched) {
+      if (!m.unpairedLogged) {
+        m.unpairedLogged = true;
+        log(m, `[Kalshi1Poly] Refusing entry on ${m.ticker}: Kalshi/Polymarket pair not verified (${p.pair?.mismatch ?? "no pair"})`, "warn");
+      }
+      return decision("skip", `pair not verified: ${p.pair?.mismatch ?? "no pair"}`);
+    }
+
+    if (KALSHI_1_POLY_POLY_ENTRY) {
+      updateKalshi1Trigger(m, "UP", p.kalshi, nowMs);
+      updateKalshi1Trigger(m, "DOWN", p.kalshi, nowMs);
+    }
+    // Mirrored trigger is the current Poly ask, not a latch: once Poly drops back the lead is gone.
+    const polyUpLeads = KALSHI_1_POLY_KALSHI_ENTRY && p.polymarket.upAsk >= POLY_LEAD_TRIGGER;
+    const polyDownLeads = KALSHI_1_POLY_KALSHI_ENTRY && p.polymarket.downAsk >= POLY_LEAD_TRIGGER;
+    if (m.seenKalshiUp1 || m.seenKalshiDown1) {
+      setLifecycle(m, "armed", `Kalshi ${m.seenKalshiUp1 ? "UP" : "DOWN"} 1.00 confirmed`);
+    } else if (polyUpLeads || polyDownLeads) {
+      setLifecycle(m, "armed", `Poly ${polyUpLeads ? "UP" : "DOWN"} ask >= ${POLY_LEAD_TRIGGER.toFixed(2)}`);
     }
-    if (skippedTickers.has(ticker)) return;
 
-    seenKalshiUp1 = seenKalshiUp1 || p.kalshi.upAskCents >= KALSHI_1;
-    seenKalshiDown1 = seenKalshiDown1 || p.kalshi.downAskCents >= KALSHI_1;
+    // The trading calendar gates entries only: triggers above keep being tracked, exits keep running.
+    const calendarBlock = calendarEntryBlock(nowMs, m.closeMs);
+    if (calendarBlock !== m.calendarNote) {
+      log(m, calendarBlock ? `[Kalshi1Poly] Entries closed on ${m.ticker}: ${calendarBlock}` : `[Kalshi1Poly] Entries open again on ${m.ticker}`);
+      m.calendarNote = calendarBlock;
+    }
+    if (calendarBlock) return decision("skip", `calendar: ${calendarBlock}`);
+
+    if (openPositionCount(st) >= MAX_OPEN_POSITIONS) return decision("skip", `max open positions (${MAX_OPEN_POSITIONS})`);
 
-    if (cycleDoneTicker === ticker) return;
+    const polyUp = p.polymarket.upAsk;
+    const polyDown = p.polymarket.downAsk;
+    const polyBuyMin = evalThresholdCurve(POLY_BUY_MIN_CURVE, Math.max(0, (m.closeMs - nowMs) / 1000));
 
     // Method 1 only: buy when Kalshi same-side >= 1.00 and Poly same-side >= polyBuyMin
-    const buyUpMethod1 = seenKalshiUp1 && polyUp >= POLY_BUY_MIN;
+    const buyUpMethod1 = m.seenKalshiUp1 && polyUp >= polyBuyMin;
     const canBuyUp = buyUpMethod1 && polyUp <= POLY_PRICE_MAX;
-
     if (canBuyUp) {
-      const minsPast = minutesSinceLastQuarter(nowMs);
-      let size: number;
-      if (minsPast >= MINUTES_PAST_QUARTER_USE_BALANCE) {
-        const balance = cachedProxyBalanceUsd;
-        size = balance != null && balance >= 1 ? Math.max(1, Math.floor(balance)) : KALSHI_1_POLY_SIZE;
-        if (balance != null && balance >= 1) {
-          appendMonitorLogWithTimestamp(`[Kalshi1Poly] >${MINUTES_PAST_QUARTER_USE_BALANCE}m past quarter (${minsPast.toFixed(1)}m); using cached proxy balance $${balance.toFixed(2)} → buy size ${size}`);
-        }
-      } else {
-        size = KALSHI_1_POLY_SIZE;
-      }
-      const msg = `[Kalshi1Poly] Entry UP (Method 1): Kalshi UP ${kUp.toFixed(2)} Poly UP ${polyUp.toFixed(2)}; buy Poly UP x${size}`;
-      appendMonitorLogWithTimestamp(msg);
-      console.log(msg);
-      if (!KALSHI_1_POLY_DRY_RUN) {
-        const result = await placePolyBuyWithRetry(
-          p.polymarket.upTokenId,
-          polyUp,
-          size,
-          { forcePlace: true, conditionId: p.polymarket.conditionId }
-        );
-        if (result && !("error" in result)) {
-          entryAttemptedTicker = ticker;
-          position = { side: "UP", tokenId: p.polymarket.upTokenId, size, conditionId: p.polymarket.conditionId };
-          addHolding(p.polymarket.conditionId, p.polymarket.upTokenId, size);
-          await updatePositionSizeFromBalance(1);
-        } else if (result && "error" in result) {
-          appendMonitorLogWithTimestamp(`[Kalshi1Poly] Buy UP failed (will retry next tick): ${result.error}`);
-        }
-      }
-      return;
+      return await enterSide(st, m, p.kalshi, p.polymarket, "UP", p.schedule, nowMs);
     }
 
     // Method 1 only: buy when Kalshi same-side >= 1.00 and Poly same-side >= polyBuyMin
-    const buyDownMethod1 = seenKalshiDown1 && polyDown >= POLY_BUY_MIN;
+    const buyDownMethod1 = m.seenKalshiDown1 && polyDown >= polyBuyMin;
     const canBuyDown = buyDownMethod1 && polyDown <= POLY_PRICE_MAX;
-
     if (canBuyDown) {
-      const minsPast = minutesSinceLastQuarter(nowMs);
-      let size: number;
-      if (minsPast >= MINUTES_PAST_QUARTER_USE_BALANCE) {
-        const balance = cachedProxyBalanceUsd;
-        size = balance != null && balance >= 1 ? Math.max(1, Math.floor(balance)) : KALSHI_1_POLY_SIZE;
-        if (balance != null && balance >= 1) {
-          appendMonitorLogWithTimestamp(`[Kalshi1Poly] >${MINUTES_PAST_QUARTER_USE_BALANCE}m past quarter (${minsPast.toFixed(1)}m); using cached proxy balance $${balance.toFixed(2)} → buy size ${size}`);
-        }
-      } else {
-        size = KALSHI_1_POLY_SIZE;
-      }
-      const msg = `[Kalshi1Poly] Entry DOWN (Method 1): Kalshi DOWN ${kDown.toFixed(2)} Poly DOWN ${polyDown.toFixed(2)}; buy Poly DOWN x${size}`;
-      appendMonitorLogWithTimestamp(msg);
-      console.log(msg);
-      if (!KALSHI_1_POLY_DRY_RUN) {
-        const result = await placePolyBuyWithRetry(
-          p.polymarket.downTokenId,
-          polyDown,
-          size,
-          { forcePlace: true, conditionId: p.polymarket.conditionId }
-        );
-        if (result && !("error" in result)) {
-          entryAttemptedTicker = ticker;
-          position = { side: "DOWN", tokenId: p.polymarket.downTokenId, size, conditionId: p.polymarket.conditionId };
-          addHolding(p.polymarket.conditionId, p.polymarket.downTokenId, size);
-          await updatePositionSizeFromBalance(2);
-        } else if (result && "error" in result) {
-          appendMonitorLogWithTimestamp(`[Kalshi1Poly] Buy DOWN failed (will retry next tick): ${result.error}`);
-        }
-      }
+      return await enterSide(st, m, p.kalshi, p.polymarket, "DOWN", p.schedule, nowMs);
+    }
+
+    // Mirrored Method 1: Poly same-side >= POLY_LEAD_TRIGGER and Kalshi same-side still <= KALSHI_BUY_MAX
+    const kalshiUp = p.kalshi.upAskCents / 100;
+    if (polyUpLeads && kalshiUp > 0 && kalshiUp <= KALSHI_BUY_MAX) {
+      return await enterKalshiSide(st, m, p.kalshi, p.polymarket, "UP", p.schedule, nowMs);
     }
+    const kalshiDown = p.kalshi.downAskCents / 100;
+    if (polyDownLeads && kalshiDown > 0 && kalshiDown <= KALSHI_BUY_MAX) {
+      return await enterKalshiSide(st, m, p.kalshi, p.polymarket, "DOWN", p.schedule, nowMs);
+    }
+    const pending = (["UP", "DOWN"] as const).filter((side) => m.pendingKalshi1[side]);
+    if (pending.length > 0) {
+      return decision("none", `Kalshi ${pending.join("/")} 1.00 pending confirmation (${confirmRules()})`);
+    }
+    return decision("none", "no signal");
   } finally {
-    strategyBusy = false;
+    s.busy = false;
   }
 }
+
+/** A new, isolated Kalshi1Poly instance (own markets, balance caches and order reporters). */
+export function createKalshi1PolyStrategy(): Strategy {
+  const st = createState();
+  return {
+    name: STRATEGY_NAME,
+    async init(ctx) {
+      st.orderReporters.set(ctx.asset, ctx.reportOrder);
+      if (!st.announced) {
+        st.announced = true;
+        const directions = [
+          KALSHI_1_POLY_POLY_ENTRY ? "Method 1 (Kalshi>=1.00 → Poly>=polyBuyMin)" : null,
+          KALSHI_1_POLY_KALSHI_ENTRY ? `mirrored (Poly>=${POLY_LEAD_TRIGGER.toFixed(2)} → Kalshi<=${KALSHI_BUY_MAX.toFixed(2)}, kalshiSellBelow=${formatThresholdCurve(KALSHI_SELL_BELOW_CURVE)})` : null,
+        ].filter(Boolean);
+        console.log(
+          `[Kalshi1Poly] Strategy: same-side ${directions.join(" + ") || "no entries (both directions off)"}. polyBuyMin=${formatThresholdCurve(POLY_BUY_MIN_CURVE)} polySellBelow=${formatThresholdCurve(POLY_SELL_BELOW_CURVE)} rangeBuffer=${formatThresholdCurve(POLY_SELL_RANGE_BUFFER_CURVE)} size=${KALSHI_1_POLY_SIZE} sizing=${SIZING_MODE} circuit poly=${st.breakers.polymarket.describe()} kalshi=${st.breakers.kalshi.describe()} calendar=${TRADING_CALENDAR_FILE}${KALSHI_1_POLY_DRY_RUN ? " (DRY RUN)" : ""}`
+        );
+      }
+      await restorePositions(st, getAssetState(st, ctx.asset), Date.now());
+    },
+    onTick: (p) => checkKalshi1PolyStrategy(st, p),
+    onSlotEnd: (info) => expireOnSlotEnd(st, info, (m) => expireMarket(st, m)),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Kalshi ↔ Polymarket market pairing. The Kalshi market is discovered from its series and the Polymarket slug is
+ * derived from the slot clock; a MarketPair checks that both resolve on the same window before the strategy trades them.
+ */
+import { MARKET_PAIR_TOLERANCE_SEC } from "../core/config";
+
+/** Window a market resolves on, UTC ms (null when the venue did not report it). */
+export interface MarketWindow {
+  startMs: number | null;
+  endMs: number | null;
+}
+
+export interface MarketPair {
+  kalshiTicker: string;
+  polymarketSlug: string;
+  conditionId: string;
+  /** Kalshi open_time / close_time */
+  kalshi: MarketWindow;
+  /** Gamma eventStartTime (or startDate) / endDate */
+  polymarket: MarketWindow;
+  /** True when both windows are known and agree within MARKET_PAIR_TOLERANCE_SEC */
+  matched: boolean;
+  /** Why the pair did not match (null when matched) */
+  mismatch: string | null;
+}
+
+export function parseWindowTime(raw: string | null | undefined): number | null {
+  if (!raw) return null;
+  const ms = Date.parse(raw);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function describeTime(ms: number | null): string {
+  return ms == null ? "?" : new Date(ms).toISOString();
+}
+
+/** Reason the two windows differ, or null if they cover the same interval. Unknown times count as a mismatch. */
+function windowMismatch(kalshi: MarketWindow, polymarket: MarketWindow, toleranceMs: number): string | null {
+  const problems: string[] = [];
+  const check = (label: string, k: number | null, p: number | null) => {
+    if (k == null || p == null) problems.push(`${label} unknown`);
+    else if (Math.abs(k - p) > toleranceMs) problems.push(`${label} off by ${Math.round((p - k) / 1000)}s`);
+  };
+  check("start", kalshi.startMs, polymarket.startMs);
+  check("end", kalshi.endMs, polymarket.endMs);
+  if (problems.length === 0) return null;
+  return (
+    `${problems.join(", ")} (Kalshi ${describeTime(kalshi.startMs)} → ${describeTime(kalshi.endMs)}, ` +
+    `Polymarket ${describeTime(polymarket.startMs)} → ${describeTime(polymarket.endMs)})`
+  );
+}
+
+export function buildMarketPair(options: {
+  kalshiTicker: string;
+  kalshi: MarketWindow;
+  polymarketSlug: string;
+  conditionId: string;
+  polymarket: MarketWindow;
+}): MarketPair {
+  const mismatch = windowMismatch(options.kalshi, options.polymarket, MARKET_PAIR_TOLERANCE_SEC * 1000);
+  return {
+    kalshiTicker: options.kalshiTicker,
+    polymarketSlug: options.polymarketSlug,
+    conditionId: options.conditionId,
+    kalshi: options.kalshi,
+    polymarket: options.polymarket,
+    matched: mismatch == null,
+    mismatch,
+  };
+}
@@ -0,0 +1,14 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { useScratchEnv } from "../testing/scratch";
+
+useScratchEnv({ SIZING_MODE: "equity-fraction", SIZING_EQUITY_FRACTION: "0.1", SIZING_HISTORY_FILE: "sizing.json" });
+const { createSizer, sizingNeedsEquity }: typeof import("./position-sizing") = require("./position-sizing");
+
+test("equity-fraction sizer stakes a share of the balance, fixed without one", () => {
+  assert.ok(sizingNeedsEquity());
+  const sizer = createSizer("equity", 10);
+  assert.equal(sizer.size({ price: 0.4, equityUsd: 200, slot: "15m|1" }).size, 50);
+  assert.equal(sizer.size({ price: 0.3, equityUsd: 100, slot: "15m|1" }).size, 33);
+  assert.equal(sizer.size({ price: 0.4, equityUsd: null, slot: "15m|1" }).size, 10);
+});
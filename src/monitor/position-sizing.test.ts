@@ -0,0 +1,77 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { useScratchEnv } from "../testing/scratch";
+
+useScratchEnv({
+  SIZING_MODE: "kelly",
+  SIZING_KELLY_FRACTION: "0.5",
+  SIZING_KELLY_PRIOR_WEIGHT: "4",
+  SIZING_KELLY_MIN_CYCLES: "4",
+  SIZING_MAX_ORDER_USD: "20",
+  SIZING_MAX_SLOT_USD: "30",
+  SIZING_HISTORY_FILE: "sizing.json",
+});
+const sizing: typeof import("./position-sizing") = require("./position-sizing");
+const { createSizer, kellyFraction, sizingNeedsEquity, winProbability } = sizing;
+
+const near = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≠ ${expected}`);
+
+describe("winProbability", () => {
+  test("is the price without history", () => {
+    near(winProbability(0.6, { wins: 0, losses: 0 }, 20), 0.6);
+    near(winProbability(0.6, { wins: 0, losses: 0 }, 0), 0.6);
+  });
+
+  test("shrinks the hit rate towards the price by the prior weight", () => {
+    near(winProbability(0.5, { wins: 8, losses: 2 }, 10), 0.65);
+    near(winProbability(0.5, { wins: 8, losses: 2 }, 0), 0.8);
+  });
+});
+
+test("kellyFraction", () => {
+  near(kellyFraction(0.65, 0.5), 0.3);
+  assert.equal(kellyFraction(0.4, 0.5), 0);
+  assert.equal(kellyFraction(0.9, 1), 0);
+  assert.equal(kellyFraction(0.9, 0), 0);
+});
+
+describe("kelly sizer", () => {
+  const req = { price: 0.5, equityUsd: 100, slot: "15m|1" };
+
+  test("sizes fixed until enough cycles are recorded, or without equity", () => {
+    assert.ok(sizingNeedsEquity());
+    const sizer = createSizer("warm-up", 10);
+    assert.equal(sizer.size(req).size, 10);
+    for (let i = 0; i < 4; i++) sizer.recordOutcome(true);
+    assert.equal(sizer.size({ ...req, equityUsd: null }).size, 10);
+  });
+
+  test("stakes the Kelly fraction of equity, capped per order and per slot", () => {
+    const sizer = createSizer("capped", 10);
+    for (let i = 0; i < 4; i++) sizer.recordOutcome(true);
+    // p = (4 + 0.5·4) / 8 = 0.75, f = 0.5, half Kelly of $100 = $25 → order cap $20.
+    assert.equal(sizer.size({ ...req, equityUsd: 40 }).size, 20);
+    assert.equal(sizer.size(req).size, 40);
+    sizer.commit(req.slot, 20);
+    assert.equal(sizer.size(req).size, 20);
+    sizer.commit(req.slot, 10);
+    assert.equal(sizer.size(req).size, 0);
+    assert.equal(sizer.size({ ...req, slot: "15m|2" }).size, 40);
+  });
+
+  test("no edge, no entry", () => {
+    const sizer = createSizer("losing", 10);
+    for (let i = 0; i < 4; i++) sizer.recordOutcome(false);
+    assert.equal(sizer.size(req).size, 0);
+    assert.equal(sizer.size({ ...req, price: 0 }).size, 0);
+  });
+
+  test("the hit rate survives a restart", () => {
+    const sizer = createSizer("persisted", 10);
+    sizer.recordOutcome(true);
+    sizer.recordOutcome(false);
+    sizer.recordOutcome(true);
+    assert.deepEqual(createSizer("persisted", 10).hitRate(), { wins: 2, losses: 1 });
+    assert.deepEqual(createSizer("other", 10).hitRate(), { wins: 0, losses: 0 });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Entry sizing (SIZING_MODE): fixed size, fixed notional, a fraction of equity or fractional Kelly. Every mode is capped
+ * per order (SIZING_MAX_ORDER_USD) and per slot (SIZING_MAX_SLOT_USD).
+ * Kelly's win probability is the entry price shrunk towards the strategy's historical hit rate; wins / losses are kept
+ * per strategy in SIZING_HISTORY_FILE so the estimate survives restarts. Until SIZING_KELLY_MIN_CYCLES cycles are recorded
+ * Kelly sizes like "fixed" (with no history the estimate is the price itself, i.e. no edge and no entries).
+ */
+import {
+  SIZING_MODE,
+  SIZING_NOTIONAL_USD,
+  SIZING_EQUITY_FRACTION,
+  SIZING_KELLY_FRACTION,
+  SIZING_KELLY_PRIOR_WEIGHT,
+  SIZING_KELLY_MIN_CYCLES,
+  SIZING_MAX_ORDER_USD,
+  SIZING_MAX_SLOT_USD,
+  SIZING_HISTORY_FILE,
+} from "../core/config";
+import { readJsonFile, writeJsonFileAtomic } from "../core/json-file";
+
+/** Slots whose committed notional is remembered (several assets / schedules may be open at once) */
+const SLOTS_KEPT = 16;
+
+export interface SizeRequest {
+  /** Expected entry price per share / contract (0–1) */
+  price: number;
+  /** Equity (USD) on the venue paying for the order; null if unknown (equity modes then fall back to the fixed size) */
+  equityUsd: number | null;
+  /** Slot the order belongs to (per-slot cap), e.g. "15m|1738641600000" */
+  slot: string;
+}
+
+export interface SizeResult {
+  /** Whole shares / contracts to buy; 0 = do not enter */
+  size: number;
+  /** How the size was reached, e.g. "kelly p=0.93 f=0.05 × 0.25 of $120.00 → $1.50, capped by slot $5.00" */
+  detail: string;
+}
+
+export interface HitRate {
+  wins: number;
+  losses: number;
+}
+
+export interface Sizer {
+  size(req: SizeRequest): SizeResult;
+  /** Count an order's notional against its slot once it is placed */
+  commit(slot: string, notionalUsd: number): void;
+  /** A finished cycle: won = exited above entry, or resolved / locked in the money */
+  recordOutcome(won: boolean): void;
+  hitRate(): HitRate;
+}
+
+/** True when the mode sizes from equity (callers fetch the balance only then). */
+export function sizingNeedsEquity(): boolean {
+  return SIZING_MODE === "equity-fraction" || SIZING_MODE === "kelly";
+}
+
+/** Win probability: the entry price as a prior worth `priorWeight` cycles, updated with the observed wins / losses. */
+export function winProbability(price: number, history: HitRate, priorWeight: number): number {
+  const n = history.wins + history.losses;
+  if (n + priorWeight <= 0) return price;
+  return (history.wins + price * priorWeight) / (n + priorWeight);
+}
+
+/** Full-Kelly fraction of equity for a $1 binary bought at `price` with win probability `p`: (p - price) / (1 - price). */
+export function kellyFraction(p: number, price: number): number {
+  if (price <= 0 || price >= 1) return 0;
+  return Math.max(0, (p - price) / (1 - price));
+}
+
+function loadHistory(): Record<string, HitRate> {
+  return readJsonFile<Record<string, HitRate>>(SIZING_HISTORY_FILE) ?? {};
+}
+
+function saveHistory(strategy: string, history: HitRate): void {
+  try {
+    writeJsonFileAtomic(SIZING_HISTORY_FILE, { ...loadHistory(), [strategy]: history });
+  } catch (e) {
+    console.error("Failed to save sizing history:", e);
+  }
+}
+
+/** A sizer for one strategy instance; `fixedSize` is the size of SIZING_MODE=fixed and the fallback without equity. */
+export function createSizer(strategy: string, fixedSize: number): Sizer {
+  const saved = loadHistory()[strategy];
+  const history: HitRate = { wins: saved?.wins ?? 0, losses: saved?.losses ?? 0 };
+  /** Notional committed per slot (insertion order; the oldest are dropped past SLOTS_KEPT) */
+  const slotSpent = new Map<string, number>();
+
+  function targetNotional(req: SizeRequest): { usd: number; detail: string } {
+    const fixed = { usd: fixedSize * req.price, detail: `fixed ${fixedSize}` };
+    if (SIZING_MODE === "fixed") return fixed;
+    if (SIZING_MODE === "fixed-notional") return { usd: SIZING_NOTIONAL_USD, detail: `notional $${SIZING_NOTIONAL_USD.toFixed(2)}` };
+    if (req.equityUsd == null) return { ...fixed, detail: `${fixed.detail} (${SIZING_MODE}: equity unknown)` };
+    const equity = `$${req.equityUsd.toFixed(2)}`;
+    if (SIZING_MODE === "equity-fraction") {
+      const usd = req.equityUsd * SIZING_EQUITY_FRACTION;
+      return { usd, detail: `${SIZING_EQUITY_FRACTION} of ${equity} → $${usd.toFixed(2)}` };
+    }
+    const cycles = history.wins + history.losses;
+    if (cycles < SIZING_KELLY_MIN_CYCLES) {
+      return { ...fixed, detail: `${fixed.detail} (kelly: ${cycles}/${SIZING_KELLY_MIN_CYCLES} cycles recorded)` };
+    }
+    const p = winProbability(req.price, history, SIZING_KELLY_PRIOR_WEIGHT);
+    const f = kellyFraction(p, req.price);
+    const usd = req.equityUsd * f * SIZING_KELLY_FRACTION;
+    return {
+      usd,
+      detail: `kelly p=${p.toFixed(3)} (${history.wins}W/${history.losses}L) f=${f.toFixed(3)} × ${SIZING_KELLY_FRACTION} of ${equity} → $${usd.toFixed(2)}`,
+    };
+  }
+
+  return {
+    size(req) {
+      if (!(req.price > 0)) return { size: 0, detail: `no price (${req.price})` };
+      const target = targetNotional(req);
+      let usd = target.usd;
+      let detail = target.detail;
+      if (SIZING_MAX_ORDER_USD > 0 && usd > SIZING_MAX_ORDER_USD) {
+        usd = SIZING_MAX_ORDER_USD;
+        detail += `, capped by order $${SIZING_MAX_ORDER_USD.toFixed(2)}`;
+      }
+      if (SIZING_MAX_SLOT_USD > 0) {
+        const left = Math.max(0, SIZING_MAX_SLOT_USD - (slotSpent.get(req.slot) ?? 0));
+        if (usd > left) {
+          usd = left;
+          detail += `, capped by slot $${SIZING_MAX_SLOT_USD.toFixed(2)} ($${left.toFixed(2)} left)`;
+        }
+      }
+      const size = Math.max(0, Math.floor(usd / req.price + 1e-9));
+      return { size, detail: `${detail} → ${size} @ ${req.price.toFixed(2)}` };
+    },
+    commit(slot, notionalUsd) {
+      slotSpent.set(slot, (slotSpent.get(slot) ?? 0) + notionalUsd);
+      for (const key of slotSpent.keys()) {
+        if (slotSpent.size <= SLOTS_KEPT) break;
+        slotSpent.delete(key);
+      }
+    },
+    recordOutcome(won) {
+      if (won) history.wins++;
+      else history.losses++;
+      saveHistory(strategy, history);
+    },
+    hitRate: () => ({ ...history }),
+  };
+}
@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { useScratchEnv } from "../testing/scratch";
+
+useScratchEnv({ POSITIONS_FILE: "state/positions.json" });
+const { loadPositions, removePosition, savePosition }: typeof import("./position-store") = require("./position-store");
+
+const position = (strategy: string, ticker: string) => ({
+  strategy,
+  asset: "btc",
+  ticker,
+  conditionId: "0xc",
+  side: "UP" as const,
+  tokenId: "123",
+  size: 10,
+  entryPrice: 0.9,
+  closeMs: Date.UTC(2026, 1, 5, 12, 15),
+  openedAt: "2026-02-05T12:01:00.000Z",
+});
+
+test("positions round-trip through the file, keyed by strategy, ticker and market", () => {
+  assert.deepEqual(loadPositions(), []);
+  savePosition(position("kalshi-1-poly", "KXBTC15M-A"));
+  savePosition(position("kalshi-1-poly", "KXBTC15M-B"));
+  savePosition(position("sum-arb", "KXBTC15M-A"));
+  savePosition({ ...position("kalshi-1-poly", "KXBTC15M-A"), size: 7 });
+
+  const mine = loadPositions("kalshi-1-poly");
+  assert.deepEqual(mine.map((p) => [p.ticker, p.size]), [["KXBTC15M-A", 7], ["KXBTC15M-B", 10]]);
+  assert.ok(mine.every((p) => typeof p.updatedAt === "string"));
+  assert.equal(loadPositions().length, 3);
+
+  removePosition(position("kalshi-1-poly", "KXBTC15M-A"));
+  removePosition(position("kalshi-1-poly", "KXBTC15M-missing"));
+  assert.deepEqual(loadPositions("kalshi-1-poly").map((p) => p.ticker), ["KXBTC15M-B"]);
+  assert.deepEqual(loadPositions("sum-arb").map((p) => p.ticker), ["KXBTC15M-A"]);
+});
+
+test("an unreadable file holds no positions", () => {
+  fs.writeFileSync("state/positions.json", "{ truncated");
+  assert.deepEqual(loadPositions(), []);
+});
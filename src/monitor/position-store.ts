@@ -0,0 +1,99 @@
+/**
+ * Open strategy positions on disk (POSITIONS_FILE): strategy|ticker|conditionId -> position.
+ * Rewritten on every change so a restart can reconcile them against the chain and resume exit monitoring.
+ */
+import { POSITIONS_FILE } from "../core/config";
+import { readJsonFile, writeJsonFileAtomic } from "../core/json-file";
+import type { ThresholdCurve } from "../core/threshold-curve";
+
+/** Kalshi leg bought against the Poly shares: one contract per share locks a $1 payout per pair whichever side wins. */
+export interface HedgeLeg {
+  ticker: string;
+  side: "yes" | "no";
+  count: number;
+  /** Limit price of the buy */
+  priceCents: number;
+  /** Average fill price (absent in positions saved before it was recorded; use priceCents then) */
+  fillPriceCents?: number;
+  orderId: string;
+  placedAt: string;
+}
+
+/** Exit rules on top of the sellBelow floor; 0 turns a rule off. */
+export interface ExitPolicy {
+  /** Sell when the price falls this far below its peak since entry */
+  trailingStop: number;
+  /** Sell when the price reaches this */
+  takeProfit: number;
+  /** Sell when the price falls this far below the entry price */
+  maxDrawdown: number;
+}
+
+export interface PersistedPosition {
+  strategy: string;
+  asset: string;
+  /** Kalshi ticker of the market the position belongs to */
+  ticker: string;
+  conditionId: string;
+  side: "UP" | "DOWN";
+  /** Where the position is held (absent in files written before Kalshi-only legs: polymarket) */
+  venue?: "polymarket" | "kalshi";
+  /** Polymarket token ID, or the Kalshi ticker for a Kalshi position */
+  tokenId: string;
+  /** Shares (or Kalshi contracts) held, updated from the venue after the buy */
+  size: number;
+  entryPrice: number;
+  /** Exit threshold curves in force at entry (strategies with a price exit) */
+  sellBelow?: ThresholdCurve;
+  sellRangeBuffer?: ThresholdCurve;
+  exits?: ExitPolicy;
+  /** Highest exit-side price seen since entry (trailing stop reference) */
+  peakPrice?: number;
+  /** Market close (UTC ms) */
+  closeMs: number;
+  /** Set once the position is hedged on Kalshi; both legs then ride to resolution */
+  hedge?: HedgeLeg;
+  openedAt: string;
+  updatedAt: string;
+}
+
+interface PositionFile {
+  [key: string]: PersistedPosition;
+}
+
+export function positionKey(p: Pick<PersistedPosition, "strategy" | "ticker" | "conditionId">): string {
+  return `${p.strategy}|${p.ticker}|${p.conditionId}`;
+}
+
+function load(): PositionFile {
+  return readJsonFile<PositionFile>(POSITIONS_FILE) ?? {};
+}
+
+function save(positions: PositionFile): void {
+  try {
+    writeJsonFileAtomic(POSITIONS_FILE, positions);
+  } catch (e) {
+    console.error("Failed to save positions:", e);
+  }
+}
+
+/** Positions on disk, optionally only one strategy's. */
+export function loadPositions(strategy?: string): PersistedPosition[] {
+  const all = Object.values(load());
+  return strategy ? all.filter((p) => p.strategy === strategy) : all;
+}
+
+/** Insert or replace a position (updatedAt set now). */
+export function savePosition(position: Omit<PersistedPosition, "updatedAt">): void {
+  const positions = load();
+  positions[positionKey(position)] = { ...position, updatedAt: new Date().toISOString() };
+  save(positions);
+}
+
+export function removePosition(position: Pick<PersistedPosition, "strategy" | "ticker" | "conditionId">): void {
+  const positions = load();
+  const key = positionKey(position);
+  if (!positions[key]) return;
+  delete positions[key];
+  save(positions);
+}
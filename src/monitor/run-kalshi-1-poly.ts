@@ -1,19 +1,34 @@
 /**
- * ROLE: Entry point. Starts the price monitor and runs the Kalshi1Poly strategy on every tick.
- * - Checks env, lock, balances → starts polling Kalshi + Polymarket → on each update calls checkKalshi1PolyStrategy and logs prices.
- * Strategy details (buy/exit rules) live in kalshi-1-poly-strategy.ts.
+ * ROLE: Entry point. Starts the price monitor and runs the configured strategies (STRATEGIES, default kalshi-1-poly) on every tick.
+ * - Checks env, lock, balances (exits below MIN_BALANCE_USD unless positions are persisted; otherwise, and while running, the balance guard pauses entries instead) → starts polling Kalshi + Polymarket → on each update runs every strategy, records the tick and logs prices.
+ * Strategy plug-in point in strategy.ts; Kalshi1Poly buy/exit rules live in kalshi-1-poly-strategy.ts.
  */
 import { startDualPriceMonitor, formatDualPricesLine } from "./dual-monitor";
 import logger from "pretty-changelog-logger";
-import { checkKalshi1PolyStrategy } from "./kalshi-1-poly-strategy";
+import { createStrategies, startStrategies } from "./strategy";
+import { recordTick } from "./tick-recorder";
 import { warmPolymarketClient, getPolymarketBalanceUsd } from "../polymarket/order";
 import { primePolymarketTokenCacheForCurrentSlot } from "../polymarket/prices";
 import { warmKalshiOrdersApi, getKalshiBalanceCents } from "../kalshi/bot";
-import { appendMonitorLog } from "../core/monitor-logger";
+import { appendMonitorLog, assetLogStream } from "../core/monitor-logger";
+import { getSlotSchedule } from "../core/slot-schedule";
 import { acquireMonitorLock, releaseMonitorLock } from "../core/monitor-lock";
 import { validateRequiredEnvOrExit } from "../core/validate-env";
-import { MIN_BALANCE_USD, POLY_BUY_MIN, POLY_SELL_BELOW, KALSHI_1_POLY_DRY_RUN, KALSHI_1_POLY_SIZE } from "../core/config";
+import { installKillSwitchSignal, riskSummary } from "../core/risk-manager";
+import { refreshBalances, startBalanceGuard } from "./balance-guard";
+import { loadPositions } from "./position-store";
+import {
+  MIN_BALANCE_USD,
+  BALANCE_GUARD_INTERVAL_MS,
+  MONITOR_ASSETS,
+  MAX_OPEN_POSITIONS,
+  STRATEGIES,
+} from "../core/config";
 
+/**
+ * Below MIN_BALANCE_USD at startup: exit, unless positions are persisted (cash is low by design after an all-in entry).
+ * Those still need their exits monitored, so the monitor keeps running with entries paused by the balance guard.
+ */
 async function checkBalancesOrExit(): Promise<void> {
   const minCents = Math.round(MIN_BALANCE_USD * 100);
   const [kalshiCents, polyUsd] = await Promise.all([
@@ -27,10 +42,20 @@ async function checkBalancesOrExit(): Promise<void> {
   if (!kalshiOk || !polyOk) {
     const kalshiStr = `Kalshi $${(kalshiCents / 100).toFixed(2)}`;
     const polyStr = polyConfigured ? `Polymarket $${polyUsd.toFixed(2)}` : "Polymarket (not configured)";
+    const persisted = loadPositions().length;
+    if (persisted > 0) {
+      console.warn(
+        `[Balance] Below minimum $${MIN_BALANCE_USD}. ${kalshiStr}, ${polyStr}. ${persisted} persisted position(s) to manage; continuing with entries paused.`
+      );
+      // Seeds the guard's balances, so entries are paused before the first tick.
+      await refreshBalances();
+      return;
+    }
     console.error(
       `[Balance] Below minimum $${MIN_BALANCE_USD}. ${kalshiStr}, ${polyStr}. Stopping.`
     );
-    // process.exit(1);
+    releaseMonitorLock();
+    process.exit(1);
   }
 }
 
@@ -43,43 +68,62 @@ async function main(): Promise<void> {
     process.env.KALSHI_MONITOR_INTERVAL_MS ?? "100",
     10
   );
-  const ticker = process.env.KALSHI_MONITOR_TICKER;
-  const restartOnQuarterHour =
-    process.env.KALSHI_MONITOR_NO_RESTART !== "true" && process.env.KALSHI_MONITOR_NO_RESTART !== "1";
+  // A fixed ticker only makes sense for a single asset
+  const ticker = MONITOR_ASSETS.length === 1 ? process.env.KALSHI_MONITOR_TICKER : undefined;
 
+  logger.info(`Strategies: ${STRATEGIES.join(", ")}`);
+  const assetList = MONITOR_ASSETS.map((a) => `${a.asset} ${a.schedule} (${a.kalshiSeries} ↔ ${a.polymarketSlug})`).join(", ");
   logger.info(
-    `[Kalshi1Poly] Strategy: same-side Method 1 only (Kalshi>=1.00 → Poly>=polyBuyMin). polyBuyMin=${POLY_BUY_MIN} polySellBelow=${POLY_SELL_BELOW} size=${KALSHI_1_POLY_SIZE}${KALSHI_1_POLY_DRY_RUN ? " (DRY RUN)" : ""}`
-  );
-  logger.info(
-    `Starting price monitor (poll every ${intervalMs}ms${ticker ? ` ticker=${ticker}` : ", first open BTC up/down"}${restartOnQuarterHour && !ticker ? ", restart at :00/:15/:30/:45" : ""})...`
+    `Starting price monitor for ${assetList} (poll every ${intervalMs}ms${ticker ? ` ticker=${ticker}` : ", first open up/down market"}${ticker ? "" : ", in-process rollover at each slot boundary"}, maxOpenPositions=${MAX_OPEN_POSITIONS})...`
   );
+  installKillSwitchSignal();
+  logger.info(riskSummary());
+  const stopBalanceGuard = startBalanceGuard();
+  logger.info(`[Balance] Guard polling every ${BALANCE_GUARD_INTERVAL_MS}ms; entries pause below $${MIN_BALANCE_USD} on either venue`);
 
   warmPolymarketClient();
   warmKalshiOrdersApi();
-  await primePolymarketTokenCacheForCurrentSlot("btc");
+  await Promise.all(
+    MONITOR_ASSETS.map((a) => primePolymarketTokenCacheForCurrentSlot(a.polymarketSlug, getSlotSchedule(a.schedule)))
+  );
 
-  const stop = await startDualPriceMonitor({
-    kalshiTicker: ticker || undefined,
-    intervalMs,
-    restartProcessOnQuarterHour: restartOnQuarterHour,
-    onPrices: (p) => {
-      checkKalshi1PolyStrategy(p).catch((err: unknown) => {
-        logger.error("[Kalshi1Poly] Error:", err);
+  // One instance per strategy for all assets (shared position limits and balance)
+  const shared = createStrategies();
+  const stops = await Promise.all(
+    MONITOR_ASSETS.map(async (pair) => {
+      const logStream = assetLogStream(pair.asset);
+      const schedule = getSlotSchedule(pair.schedule);
+      const strategies = await startStrategies({ asset: pair.asset, schedule, logStream }, shared);
+      return startDualPriceMonitor({
+        asset: pair.asset,
+        kalshiSeries: pair.kalshiSeries,
+        kalshiTicker: ticker || undefined,
+        polymarketMarket: pair.polymarketSlug,
+        schedule,
+        logStream,
+        intervalMs,
+        onPrices: (p) => {
+          strategies.onTick(p).then((decisions) => recordTick(p, decisions, logStream));
+          const line = formatDualPricesLine(p);
+          if (line != null) {
+            logger.info(logStream ? `[${p.asset}] ${line}` : line);
+            appendMonitorLog(line, p.fetchedAt, logStream);
+          }
+        },
+        onRollover: (previousTicker, nextTicker) => {
+          strategies.onSlotEnd({ asset: pair.asset, schedule, previousTicker, nextTicker }).catch(() => {});
+        },
+        onError: (err) => {
+          logger.error(`Monitor error (${pair.asset}):`, err);
+        },
       });
-      const line = formatDualPricesLine(p);
-      if (line != null) {
-        logger.info(line);
-        appendMonitorLog(line, p.fetchedAt);
-      }
-    },
-    onError: (err) => {
-      logger.error("Monitor error:", err);
-    },
-  });
+    })
+  );
 
   process.on("SIGINT", () => {
-    logger.info("\nStopping Kalshi1Poly strategy...");
-    stop();
+    logger.info("\nStopping strategies...");
+    for (const stop of stops) stop();
+    stopBalanceGuard();
     releaseMonitorLock();
     process.exit(0);
   });
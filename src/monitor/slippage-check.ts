@@ -0,0 +1,43 @@
+/**
+ * Pre-trade depth check for entry buys: the VWAP of the intended size on the ask levels up to the order's limit price,
+ * against the price that triggered the entry. SLIPPAGE_ACTION decides what happens when the VWAP is more than SLIPPAGE_MAX
+ * above that price or the levels within the limit cannot fill the size: shrink to what fits, or reject.
+ * Only the levels kept in the tick (MONITOR_BOOK_DEPTH) are seen; deeper liquidity counts as missing.
+ */
+import { SLIPPAGE_ACTION, SLIPPAGE_MAX } from "../core/config";
+import { buyFill, maxBuySize, type BookLevel } from "../core/order-book";
+
+export interface DepthCheck {
+  /** Size to buy; 0 = do not place */
+  size: number;
+  /** ok | shrunk | rejected (for de-duplicating log lines whose numbers move every tick) */
+  outcome: "ok" | "shrunk" | "rejected";
+  /** The numbers behind the decision, e.g. "VWAP 0.953 for 10 (signal 0.94, slippage 0.013 <= 0.02), 24 within limit 0.95" */
+  detail: string;
+}
+
+/** Kalshi book levels (cents) in the 0–1 price unit of the check. */
+export function levelsInDollars(levels: BookLevel[]): BookLevel[] {
+  return levels.map((l) => ({ price: l.price / 100, size: l.size }));
+}
+
+/** Check buying `size` at up to `limitPrice` against `asks` (price 0–1, best first); `minSize` is the smallest order worth placing. */
+export function checkBuyDepth(asks: BookLevel[], signalPrice: number, limitPrice: number, size: number, minSize = 1): DepthCheck {
+  if (SLIPPAGE_ACTION === "off") return { size, outcome: "ok", detail: "depth check off" };
+  const fill = buyFill(asks, limitPrice, size);
+  const depth = buyFill(asks, limitPrice, Infinity).filled;
+  const slippage = fill.vwap != null ? fill.vwap - signalPrice : null;
+  const numbers =
+    `${fill.vwap != null ? `VWAP ${fill.vwap.toFixed(3)} for ${fill.filled}` : "nothing fills"} ` +
+    `(signal ${signalPrice.toFixed(3)}${slippage != null ? `, slippage ${slippage.toFixed(3)}` : ""}, max ${SLIPPAGE_MAX}), ` +
+    `${depth} within limit ${limitPrice.toFixed(3)}`;
+  const tooDeep = fill.filled < size;
+  // Rounding noise must not turn an exact fill into slippage.
+  const tooSlipped = slippage != null && slippage > SLIPPAGE_MAX + 1e-9;
+  if (!tooDeep && !tooSlipped) return { size, outcome: "ok", detail: numbers };
+  const problem = tooDeep ? `depth ${depth} < ${size}` : `slippage ${slippage!.toFixed(3)} > ${SLIPPAGE_MAX}`;
+  if (SLIPPAGE_ACTION === "reject") return { size: 0, outcome: "rejected", detail: `${problem}: ${numbers}` };
+  const fits = Math.floor(maxBuySize(asks, limitPrice, signalPrice + SLIPPAGE_MAX, size) + 1e-9);
+  if (fits < minSize) return { size: 0, outcome: "rejected", detail: `${problem}, ${fits} fits (min ${minSize}): ${numbers}` };
+  return { size: fits, outcome: "shrunk", detail: `${problem}, shrunk ${size} → ${fits}: ${numbers}` };
+}
@@ -0,0 +1,166 @@
+/**
+ * Plumbing shared by the strategies (kalshi-1-poly, sum-arb): per-asset and per-market state of an instance, logging,
+ * tick decisions, order recording and the circuit breaker per venue. Strategy logic stays in the strategy modules.
+ */
+import type { DualMarketPrices } from "./dual-monitor";
+import type { StrategyContext } from "./strategy";
+import { recordOrderEvent, type OrderEvent, type StrategyDecision } from "./tick-recorder";
+import { createCircuitBreaker, type BreakerGate, type CircuitBreaker } from "./circuit-breaker";
+import { recordSpend } from "./balance-guard";
+import { appendMonitorLogWithTimestamp, assetLogStream } from "../core/monitor-logger";
+import { getFeedHealth, type FeedHealth } from "../core/feed-health";
+import { slotEndMs } from "../core/slot-schedule";
+import { POLYMARKET_MIN_USD } from "../core/config";
+
+/** Keep a market's state this long after its close (late ticks, exit retries) before it expires and is evicted */
+const EVICT_AFTER_CLOSE_MS = 60_000;
+
+export type Venue = OrderEvent["venue"];
+
+export interface LogTarget {
+  asset: string;
+  logStream: string | undefined;
+}
+
+/** Per-asset runtime state (one tick at a time per asset) */
+export interface AssetState extends LogTarget {
+  busy: boolean;
+  /** True while entries/exits are suppressed because a feed is stale (logged once per episode) */
+  feedsStale: boolean;
+}
+
+/** Fields every strategy's per-market state has, keyed by Kalshi ticker + Polymarket conditionId */
+export interface MarketStateBase extends LogTarget {
+  key: string;
+  ticker: string;
+  conditionId: string;
+  /** Market close (UTC ms); the state is evicted EVICT_AFTER_CLOSE_MS after it */
+  closeMs: number;
+  /** Held position; a buy while this is null is an entry */
+  position: object | null;
+}
+
+/** What every strategy instance owns; instances share nothing. */
+export interface StrategyRuntime<M extends MarketStateBase> {
+  name: string;
+  assets: Map<string, AssetState>;
+  markets: Map<string, M>;
+  /** Order reporters handed in by init, per asset; without one, orders go straight to the tick log. */
+  orderReporters: Map<string, StrategyContext["reportOrder"]>;
+  /** Circuit breaker per venue, shared by all assets */
+  breakers: Record<Venue, CircuitBreaker>;
+}
+
+export function createStrategyRuntime<M extends MarketStateBase>(name: string): StrategyRuntime<M> {
+  return {
+    name,
+    assets: new Map(),
+    markets: new Map(),
+    orderReporters: new Map(),
+    breakers: {
+      polymarket: createCircuitBreaker(`${name}/polymarket`),
+      kalshi: createCircuitBreaker(`${name}/kalshi`),
+    },
+  };
+}
+
+/** Decision builder tagged with the strategy's name. */
+export function decisionBuilder(strategy: string) {
+  return (action: StrategyDecision["action"], reason: string, side?: "UP" | "DOWN"): StrategyDecision =>
+    side ? { strategy, action, side, reason } : { strategy, action, reason };
+}
+
+/** Log to the asset's stream; console lines carry the asset tag when several assets run. */
+export function log(target: LogTarget, message: string, level: "log" | "warn" | "error" = "log"): void {
+  appendMonitorLogWithTimestamp(message, target.logStream);
+  console[level](target.logStream ? `[${target.asset}] ${message}` : message);
+}
+
+/**
+ * Report an order event. Results feed the venue's breaker, except orders rejected before they reached it; a buy while
+ * the market holds no position is an entry (may close a half-open breaker). Filled buys count against the venue balance.
+ */
+export function recordOrder<M extends MarketStateBase>(rt: StrategyRuntime<M>, m: M, order: OrderEvent): void {
+  if (!order.dryRun && order.status !== "submitted" && !order.rejectedLocally) {
+    rt.breakers[order.venue].recordOrder(order.status === "ok", order.action === "buy" && !m.position, order.error);
+  }
+  if (!order.dryRun && order.status === "ok" && order.action === "buy") recordSpend(order.venue, (order.price ?? 0) * order.size);
+  const tagged = { ...order, strategy: rt.name };
+  const report = rt.orderReporters.get(m.asset);
+  if (report) report(tagged);
+  else recordOrderEvent(m.asset, tagged, m.logStream);
+}
+
+export function getAssetState<M extends MarketStateBase>(rt: StrategyRuntime<M>, asset: string): AssetState {
+  let s = rt.assets.get(asset);
+  if (!s) {
+    s = { asset, logStream: assetLogStream(asset), busy: false, feedsStale: false };
+    rt.assets.set(asset, s);
+  }
+  return s;
+}
+
+/** The tick's market state, if the instance has seen it. */
+export function findMarketState<M extends MarketStateBase>(rt: StrategyRuntime<M>, p: DualMarketPrices): M | undefined {
+  return rt.markets.get(`${p.kalshiTicker}|${p.polymarket?.conditionId ?? ""}`);
+}
+
+/** Close of the tick's market: the paired Kalshi window, else the slot end. */
+export function tickCloseMs(p: DualMarketPrices, nowMs: number): number {
+  return p.pair?.kalshi.endMs ?? slotEndMs(p.schedule, nowMs);
+}
+
+/** Register a market of asset `s`; `fields` are the strategy's own. */
+export function addMarketState<M extends MarketStateBase>(
+  rt: StrategyRuntime<M>,
+  s: AssetState,
+  ticker: string,
+  conditionId: string,
+  closeMs: number,
+  fields: Omit<M, keyof LogTarget | "key" | "ticker" | "conditionId" | "closeMs">
+): M {
+  const m = { ...fields, key: `${ticker}|${conditionId}`, asset: s.asset, logStream: s.logStream, ticker, conditionId, closeMs } as M;
+  rt.markets.set(m.key, m);
+  return m;
+}
+
+/** Expire markets whose slot closed more than EVICT_AFTER_CLOSE_MS ago (skips assets with a tick in flight). */
+export function evictClosedMarkets<M extends MarketStateBase>(rt: StrategyRuntime<M>, nowMs: number, expire: (m: M) => void): void {
+  for (const m of [...rt.markets.values()]) {
+    if (nowMs < m.closeMs + EVICT_AFTER_CLOSE_MS) continue;
+    if (rt.assets.get(m.asset)?.busy) continue;
+    expire(m);
+  }
+}
+
+/** Expire the closed market of `info` now unless a tick is mid-order; the eviction sweep catches it later otherwise. */
+export function expireOnSlotEnd<M extends MarketStateBase>(
+  rt: StrategyRuntime<M>,
+  info: { asset: string; previousTicker: string },
+  expire: (m: M) => void
+): void {
+  if (rt.assets.get(info.asset)?.busy) return;
+  for (const m of [...rt.markets.values()]) {
+    if (m.asset === info.asset && m.ticker === info.previousTicker) expire(m);
+  }
+}
+
+/** Smallest order the venue accepts at `price`: POLYMARKET_MIN_USD notional on Polymarket, one contract on Kalshi. */
+export function venueMinSize(venue: Venue, price: number): number {
+  if (venue === "kalshi") return 1;
+  const minUsd = POLYMARKET_MIN_USD > 0 ? POLYMARKET_MIN_USD : 1;
+  return price > 0 ? Math.ceil(minUsd / price) : Infinity;
+}
+
+/**
+ * Entry size cap of an allowed gate: null while the breaker is closed; while half-open its probe size, raised to the
+ * venue's minimum at `price` so the probe is not refused before it reaches the venue (the breaker could never close).
+ */
+export function probeSize(gate: Extract<BreakerGate, { allowed: true }>, venue: Venue, price: number): number | null {
+  return gate.probeSize == null ? null : Math.max(gate.probeSize, venueMinSize(venue, price));
+}
+
+/** Stale feeds of the asset (either venue); nothing should act on their quotes. */
+export function staleFeeds(asset: string): FeedHealth[] {
+  return (["kalshi", "polymarket"] as const).map((venue) => getFeedHealth(asset, venue)).filter((h) => h.state === "stale");
+}
@@ -0,0 +1,122 @@
+/**
+ * Strategy plug-in point. A Strategy gets init / tick / order-update / slot-end hooks; implementations are registered
+ * by name and STRATEGIES picks which ones run. Each strategy is created once per process and shared by every asset
+ * monitor (init runs per asset), so limits like MAX_OPEN_POSITIONS span assets. Every tick goes to each strategy,
+ * and order events from any of them are recorded and fanned out to all.
+ */
+import { STRATEGIES } from "../core/config";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import type { SlotSchedule } from "../core/slot-schedule";
+import type { DualMarketPrices } from "./dual-monitor";
+import { createKalshi1PolyStrategy } from "./kalshi-1-poly-strategy";
+import { createSumArbStrategy } from "./sum-arb-strategy";
+import { recordOrderEvent, type OrderEvent, type StrategyDecision } from "./tick-recorder";
+
+export interface StrategyContext {
+  asset: string;
+  schedule: SlotSchedule;
+  /** Asset log stream (see assetLogStream) */
+  logStream: string | undefined;
+  /** Report an order event: recorded in the tick log and passed to every strategy's onOrderUpdate. */
+  reportOrder(order: OrderEvent): void;
+}
+
+export interface SlotEndInfo {
+  asset: string;
+  schedule: SlotSchedule;
+  previousTicker: string;
+  nextTicker: string;
+}
+
+export interface Strategy {
+  name: string;
+  /** Once per asset, before its first tick (one instance serves every asset) */
+  init?(ctx: StrategyContext): void | Promise<void>;
+  /** Every tick of the asset's monitor; returns what the strategy did */
+  onTick(p: DualMarketPrices): Promise<StrategyDecision>;
+  /** Order events reported on the asset by any strategy (OrderEvent.strategy says which) */
+  onOrderUpdate?(asset: string, order: OrderEvent): void;
+  /** The asset's market closed and the monitor moved to the next slot */
+  onSlotEnd?(info: SlotEndInfo): void | Promise<void>;
+}
+
+export type StrategyFactory = () => Strategy;
+
+const registry = new Map<string, StrategyFactory>();
+
+export function registerStrategy(name: string, factory: StrategyFactory): void {
+  registry.set(name, factory);
+}
+
+export function listStrategyNames(): string[] {
+  return [...registry.keys()];
+}
+
+export function createStrategy(name: string): Strategy {
+  const factory = registry.get(name);
+  if (!factory) throw new Error(`Unknown strategy "${name}" (registered: ${listStrategyNames().join(", ")})`);
+  return factory();
+}
+
+registerStrategy("kalshi-1-poly", createKalshi1PolyStrategy);
+registerStrategy("sum-arb", createSumArbStrategy);
+
+/** Strategies running on one asset monitor. */
+export interface StrategyHost {
+  strategies: Strategy[];
+  onTick(p: DualMarketPrices): Promise<StrategyDecision[]>;
+  onSlotEnd(info: SlotEndInfo): Promise<void>;
+}
+
+function log(message: string, stream?: string): void {
+  console.error(stream ? `[${stream}] ${message}` : message);
+  appendMonitorLogWithTimestamp(message, stream);
+}
+
+/** Create the named strategies (default STRATEGIES) once for the process. */
+export function createStrategies(names: string[] = STRATEGIES): Strategy[] {
+  return names.map(createStrategy);
+}
+
+/** Init the shared strategies for one asset and return its host. */
+export async function startStrategies(
+  ctx: Omit<StrategyContext, "reportOrder">,
+  strategies: Strategy[]
+): Promise<StrategyHost> {
+  const reportOrder = (order: OrderEvent) => {
+    recordOrderEvent(ctx.asset, order, ctx.logStream);
+    for (const strategy of strategies) {
+      try {
+        strategy.onOrderUpdate?.(ctx.asset, order);
+      } catch (e) {
+        log(`[Strategy] ${strategy.name} onOrderUpdate error: ${e instanceof Error ? e.message : String(e)}`, ctx.logStream);
+      }
+    }
+  };
+  for (const strategy of strategies) await strategy.init?.({ ...ctx, reportOrder });
+
+  return {
+    strategies,
+    // Strategies run side by side; one failing does not hold up the others.
+    onTick(p) {
+      return Promise.all(
+        strategies.map((strategy) =>
+          strategy.onTick(p).catch((e: unknown): StrategyDecision => {
+            const msg = e instanceof Error ? e.message : String(e);
+            log(`[Strategy] ${strategy.name} error (${p.asset}): ${msg}`, ctx.logStream);
+            return { strategy: strategy.name, action: "none", reason: `error: ${msg}` };
+          })
+        )
+      );
+    },
+    async onSlotEnd(info) {
+      for (const strategy of strategies) {
+        try {
+          await strategy.onSlotEnd?.(info);
+        } catch (e) {
+          log(`[Strategy] ${strategy.name} onSlotEnd error: ${e instanceof Error ? e.message : String(e)}`, ctx.logStream);
+        }
+      }
+    },
+  };
+}
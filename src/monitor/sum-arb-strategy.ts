@@ -0,0 +1,601 @@
+/**
+ * ROLE: Cross-platform sum arbitrage, registered as "sum-arb" (see strategy.ts). Runs on every price tick.
+ * - Kalshi UP ask + Poly DOWN ask (or Kalshi DOWN + Poly UP) in [ARB_SUM_LOW, ARB_SUM_THRESHOLD): buy both legs, ARB_SIZE each.
+ *   Exactly one leg pays $1 whichever side wins, so the pair is held to resolution for size × (1 - sum).
+ * - Leg risk: both legs go in side by side, Kalshi as IOC and Poly as FOK, so nothing rests on either book and each leg is
+ *   booked at what filled. A failed Poly leg is re-placed at a fresh ask up to ARB_POLY_PLACE_RETRY_LIMIT times, then the
+ *   Kalshi leg is sold back; a failed Kalshi leg gets the Poly leg sold back, a partly filled one the Poly shares beyond it.
+ *   A leg that cannot be unwound is held one-sided to resolution and reported as such.
+ * One arb per market. The Poly leg (with the Kalshi leg as its hedge), or a Kalshi leg held alone, is kept in the position
+ * store until the slot closes, when the locked P/L is logged with the session total.
+ * Both legs are sized to what both books can fill within SLIPPAGE_MAX (slippage-check.ts) before anything is placed.
+ * A circuit breaker per venue (circuit-breaker.ts) pauses entries after failed orders or losing arbs in a row.
+ */
+import type { DualMarketPrices, MarketPrices } from "./dual-monitor";
+import type { Strategy } from "./strategy";
+import type { OrderEvent, StrategyDecision } from "./tick-recorder";
+import { loadPositions, removePosition, savePosition, type HedgeLeg } from "./position-store";
+import { checkBalanceForEntry } from "./balance-guard";
+import { checkBuyDepth, levelsInDollars } from "./slippage-check";
+import {
+  addMarketState,
+  createStrategyRuntime,
+  decisionBuilder,
+  evictClosedMarkets,
+  expireOnSlotEnd,
+  findMarketState,
+  getAssetState,
+  log,
+  probeSize,
+  recordOrder,
+  staleFeeds,
+  tickCloseMs,
+  type AssetState,
+  type MarketStateBase,
+  type StrategyRuntime,
+} from "./strategy-support";
+import { cancelKalshiOrder, getKalshiPosition, placeOrder, placeSellOrder } from "../kalshi/bot";
+import { placePolymarketOrder, sellPolymarketOrder } from "../polymarket/order";
+import { getOrderBookForToken, type PolymarketPrices } from "../polymarket/prices";
+import { addHolding, getMarketHoldings } from "../polymarket/holdings";
+import {
+  ARB_SUM_THRESHOLD,
+  ARB_SUM_LOW,
+  ARB_PRICE_BUFFER,
+  ARB_SIZE,
+  ARB_KALSHI_MIN,
+  ARB_POLY_MIN,
+  ARB_DRY_RUN,
+  ARB_MAX_DIVERGENCE,
+  ARB_MIN_SIDE_PROB,
+  ARB_POLY_PLACE_RETRY_LIMIT,
+  POLY_BUY_LIMIT_BUFFER,
+} from "../core/config";
+import { midPrice } from "../core/order-book";
+import { checkEntry, recordEntry, recordExit } from "../core/risk-manager";
+
+const STRATEGY_NAME = "sum-arb";
+const decision = decisionBuilder(STRATEGY_NAME);
+
+const POLY_PRICE_MAX = 0.99;
+const POLY_RETRY_DELAY_MS = 200;
+/** Entries per market where both legs failed to place before the market is given up */
+const MAX_ENTRY_ATTEMPTS = 3;
+
+type Side = "UP" | "DOWN";
+
+interface PolyLeg {
+  side: Side;
+  tokenId: string;
+  size: number;
+  /** Limit price (ask + POLY_BUY_LIMIT_BUFFER): worst-case cost */
+  price: number;
+  orderId: string;
+}
+
+/** What the market holds: both legs (locked), or one leg left after a failed unwind. */
+interface ArbPosition {
+  poly: PolyLeg | null;
+  kalshi: HedgeLeg | null;
+  openedAt: string;
+}
+
+interface MarketState extends MarketStateBase {
+  position: ArbPosition | null;
+  /** Set when the market is given up (no further entries) */
+  doneReason: string | null;
+  /** Entries where both legs failed */
+  failedEntries: number;
+  unpairedLogged: boolean;
+  /** Last reason the depth check, the risk manager, the balance guard or a circuit breaker refused an entry (logged when it changes) */
+  blockNote: string | null;
+}
+
+/** Locked result of the arbs settled so far by this instance */
+interface SessionTotals {
+  arbs: number;
+  cost: number;
+  pnl: number;
+}
+
+/** The shared runtime (strategy-support.ts); an arb needs both venues' breakers closed (or half-open, at the probe size). */
+interface SumArbState extends StrategyRuntime<MarketState> {
+  totals: SessionTotals;
+  announced: boolean;
+}
+
+/** Candidate arb: buy `kalshiSide` on Kalshi and the opposite side on Polymarket. */
+interface ArbLegs {
+  kalshiSide: Side;
+  kalshiAskCents: number;
+  polySide: Side;
+  polyAsk: number;
+  tokenId: string;
+  sum: number;
+}
+
+function addMarket(st: SumArbState, s: AssetState, ticker: string, conditionId: string, closeMs: number): MarketState {
+  return addMarketState(st, s, ticker, conditionId, closeMs, {
+    position: null,
+    doneReason: null,
+    failedEntries: 0,
+    unpairedLogged: false,
+    blockNote: null,
+  });
+}
+
+function getMarketState(st: SumArbState, s: AssetState, p: DualMarketPrices, nowMs: number): MarketState {
+  return findMarketState(st, p) ?? addMarket(st, s, p.kalshiTicker, p.polymarket?.conditionId ?? "", tickCloseMs(p, nowMs));
+}
+
+function polyLimitPrice(ask: number): number {
+  return Math.min(POLY_PRICE_MAX, ask + POLY_BUY_LIMIT_BUFFER);
+}
+
+function kalshiLimitCents(askCents: number): number {
+  return Math.min(99, askCents + Math.round(ARB_PRICE_BUFFER * 100));
+}
+
+/** Worst-case cost, guaranteed payout ($1 per matched pair) and the P/L that locks in. */
+function accountArb(position: ArbPosition): { cost: number; payout: number; pnl: number } {
+  const polyCost = position.poly ? position.poly.price * position.poly.size : 0;
+  const kalshiCost = position.kalshi ? (position.kalshi.priceCents / 100) * position.kalshi.count : 0;
+  const payout = position.poly && position.kalshi ? Math.min(position.poly.size, position.kalshi.count) : 0;
+  const cost = polyCost + kalshiCost;
+  return { cost, payout, pnl: payout - cost };
+}
+
+function describeArb(position: ArbPosition): string {
+  const legs = [
+    position.kalshi ? `Kalshi ${position.kalshi.side} x${position.kalshi.count} @ ${position.kalshi.priceCents}c` : null,
+    position.poly ? `Poly ${position.poly.side} x${position.poly.size} @ ${position.poly.price.toFixed(2)}` : null,
+  ].filter((x): x is string => x != null);
+  return `${legs.join(" + ")}${position.poly && position.kalshi ? "" : " (one-sided)"}`;
+}
+
+/** Count the legs that went in against the risk limits (open notional until the market settles). */
+function recordArbEntry(m: MarketState): void {
+  const position = m.position!;
+  recordEntry({ strategy: STRATEGY_NAME, ticker: m.ticker, conditionId: m.conditionId }, m.closeMs, {
+    ...(position.kalshi ? { kalshi: (position.kalshi.priceCents / 100) * position.kalshi.count } : {}),
+    ...(position.poly ? { polymarket: position.poly.price * position.poly.size } : {}),
+  });
+}
+
+/**
+ * Ledger entry: the Poly leg with the Kalshi leg as its hedge, or a Kalshi leg held alone (venue kalshi), so a restart
+ * neither re-enters the market nor loses the leg.
+ */
+function persistArb(m: MarketState): void {
+  const ref = { strategy: STRATEGY_NAME, ticker: m.ticker, conditionId: m.conditionId };
+  const position = m.position;
+  if (!position || (!position.poly && !position.kalshi) || ARB_DRY_RUN) {
+    removePosition(ref);
+    return;
+  }
+  const { poly, kalshi } = position;
+  if (poly) {
+    savePosition({
+      ...ref,
+      asset: m.asset,
+      side: poly.side,
+      tokenId: poly.tokenId,
+      size: poly.size,
+      entryPrice: poly.price,
+      closeMs: m.closeMs,
+      hedge: kalshi ?? undefined,
+      openedAt: position.openedAt,
+    });
+    return;
+  }
+  savePosition({
+    ...ref,
+    asset: m.asset,
+    venue: "kalshi",
+    side: kalshi!.side === "yes" ? "UP" : "DOWN",
+    tokenId: kalshi!.ticker,
+    size: kalshi!.count,
+    entryPrice: kalshi!.priceCents / 100,
+    closeMs: m.closeMs,
+    openedAt: position.openedAt,
+  });
+}
+
+/** Slot closed: log the locked result, keep the Poly holding for auto-redeem and drop the market. */
+function settleMarket(st: SumArbState, m: MarketState): void {
+  const position = m.position;
+  if (position) {
+    if (position.poly && !ARB_DRY_RUN && !getMarketHoldings(m.conditionId)[position.poly.tokenId]) {
+      addHolding(m.conditionId, position.poly.tokenId, position.poly.size);
+    }
+    const { cost, payout, pnl } = accountArb(position);
+    st.totals.arbs++;
+    st.totals.cost += cost;
+    st.totals.pnl += pnl;
+    const sign = (v: number) => `${v >= 0 ? "+" : "-"}$${Math.abs(v).toFixed(2)}`;
+    log(
+      m,
+      `[SumArb] ${m.ticker} closed, held to resolution: ${describeArb(position)}; cost $${cost.toFixed(2)}, ` +
+        `${payout > 0 ? `locked payout $${payout.toFixed(2)}, P/L ${sign(pnl)}` : "payout depends on the outcome"} ` +
+        `(session: ${st.totals.arbs} arb(s), cost $${st.totals.cost.toFixed(2)}, locked P/L ${sign(st.totals.pnl)})`
+    );
+    if (!ARB_DRY_RUN) {
+      recordExit({ strategy: STRATEGY_NAME, ticker: m.ticker, conditionId: m.conditionId }, payout > 0 ? pnl : null);
+      if (payout > 0) {
+        st.breakers.kalshi.recordCycle(pnl > 0);
+        st.breakers.polymarket.recordCycle(pnl > 0);
+      }
+    }
+  }
+  st.markets.delete(m.key);
+  removePosition({ strategy: STRATEGY_NAME, ticker: m.ticker, conditionId: m.conditionId });
+}
+
+/** Cheapest cross-venue pair inside [ARB_SUM_LOW, ARB_SUM_THRESHOLD), or why there is none. */
+function findArb(kalshi: MarketPrices, poly: PolymarketPrices): ArbLegs | { reason: string } {
+  const divergence = Math.max(
+    Math.abs((midPrice(kalshi.upBidCents / 100, kalshi.upAskCents / 100) ?? 0) - (midPrice(poly.upBid, poly.upAsk) ?? 0)),
+    Math.abs((midPrice(kalshi.downBidCents / 100, kalshi.downAskCents / 100) ?? 0) - (midPrice(poly.downBid, poly.downAsk) ?? 0))
+  );
+  if (divergence > ARB_MAX_DIVERGENCE) {
+    return { reason: `venues diverge by ${divergence.toFixed(2)} > ${ARB_MAX_DIVERGENCE}` };
+  }
+  const candidates: ArbLegs[] = [
+    { kalshiSide: "UP", kalshiAskCents: kalshi.upAskCents, polySide: "DOWN", polyAsk: poly.downAsk, tokenId: poly.downTokenId, sum: 0 },
+    { kalshiSide: "DOWN", kalshiAskCents: kalshi.downAskCents, polySide: "UP", polyAsk: poly.upAsk, tokenId: poly.upTokenId, sum: 0 },
+  ];
+  for (const c of candidates) c.sum = c.kalshiAskCents / 100 + c.polyAsk;
+  const reasons: string[] = [];
+  const usable = candidates
+    .filter((c) => {
+      const label = `K${c.kalshiSide}+P${c.polySide} ${c.sum.toFixed(2)}`;
+      if (c.sum < ARB_SUM_LOW || c.sum >= ARB_SUM_THRESHOLD) {
+        reasons.push(`${label} outside [${ARB_SUM_LOW}, ${ARB_SUM_THRESHOLD})`);
+        return false;
+      }
+      if (c.kalshiAskCents / 100 < ARB_MIN_SIDE_PROB || c.polyAsk < ARB_MIN_SIDE_PROB) {
+        reasons.push(`${label} leg below ${ARB_MIN_SIDE_PROB}`);
+        return false;
+      }
+      // Limit prices carry buffers; the pair must still pay out more than it costs at those.
+      if (kalshiLimitCents(c.kalshiAskCents) / 100 + polyLimitPrice(c.polyAsk) >= 1) {
+        reasons.push(`${label} >= 1.00 at limit prices`);
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.sum - b.sum);
+  return usable[0] ?? { reason: reasons.join("; ") };
+}
+
+/** Poly leg failed next to a placed Kalshi leg: re-place at a fresh ask while the pair still locks a profit. */
+async function retryPolyLeg(
+  st: SumArbState,
+  m: MarketState,
+  legs: ArbLegs,
+  kalshi: HedgeLeg,
+  size: number,
+  lastError: string
+): Promise<PolyLeg | { error: string }> {
+  let error = lastError;
+  for (let attempt = 1; attempt <= ARB_POLY_PLACE_RETRY_LIMIT; attempt++) {
+    await new Promise((r) => setTimeout(r, POLY_RETRY_DELAY_MS));
+    const book = await getOrderBookForToken(legs.tokenId);
+    const ask = book?.asks[0]?.price;
+    if (!book || ask == null) {
+      error = "no Poly ask";
+      continue;
+    }
+    const price = polyLimitPrice(ask);
+    if (kalshi.priceCents / 100 + price >= 1) return { error: `Poly ${legs.polySide} ask ${ask.toFixed(2)} no longer locks a profit` };
+    // The leg must match the Kalshi count, so a short book waits for the next attempt instead of shrinking.
+    const depth = checkBuyDepth(book.asks, ask, price, size, size);
+    if (depth.size < size) {
+      error = `depth ${depth.detail}`;
+      continue;
+    }
+    log(m, `[SumArb] Poly ${legs.polySide} leg retry ${attempt}/${ARB_POLY_PLACE_RETRY_LIMIT} @ ${ask.toFixed(2)} (last error: ${error})`, "warn");
+    const order: OrderEvent = {
+      venue: "polymarket",
+      action: "buy",
+      side: legs.polySide,
+      instrument: legs.tokenId,
+      price: ask,
+      size,
+      status: "submitted",
+      attempt: attempt + 1,
+    };
+    const result = await placePolymarketOrder(legs.tokenId, ask, size, { forcePlace: true, conditionId: m.conditionId, fillOrKill: true });
+    if (result && !("error" in result)) {
+      const filled = result.filledSize ?? size;
+      recordOrder(st, m, { ...order, size: filled, status: "ok" });
+      return { side: legs.polySide, tokenId: legs.tokenId, size: filled, price, orderId: result.orderId };
+    }
+    error = result ? result.error : "Polymarket not configured";
+    recordOrder(st, m, { ...order, status: "failed", error, rejectedLocally: result?.local });
+  }
+  return { error };
+}
+
+/**
+ * Sell a Kalshi leg back: cancel its order first in case any of it still rests, then sell what the Kalshi position
+ * shows (at most the leg's count). Returns the contracts still held (0 = unwound).
+ */
+async function unwindKalshiLeg(st: SumArbState, m: MarketState, leg: HedgeLeg): Promise<number> {
+  // An IOC leg has nothing left to cancel (the request then fails harmlessly); an older GTC leg may still rest.
+  if (leg.orderId) await cancelKalshiOrder(leg.orderId);
+  const contracts = await getKalshiPosition(leg.ticker);
+  // YES contracts are positive, NO negative; a failed lookup sells the leg's count.
+  const held = contracts == null ? leg.count : Math.min(leg.count, Math.max(0, leg.side === "yes" ? contracts : -contracts));
+  if (held < 1) {
+    log(m, `[SumArb] Kalshi ${leg.side} leg: nothing held (position ${contracts}); nothing to sell back`);
+    return 0;
+  }
+  const side: Side = leg.side === "yes" ? "UP" : "DOWN";
+  const order: OrderEvent = { venue: "kalshi", action: "sell", side, instrument: leg.ticker, price: 0.01, size: held, status: "submitted" };
+  const result = await placeSellOrder(leg.ticker, leg.side, held, { arbLive: true });
+  if ("error" in result) {
+    recordOrder(st, m, { ...order, status: "failed", error: result.error });
+    return held;
+  }
+  recordOrder(st, m, { ...order, status: "ok" });
+  return 0;
+}
+
+/** Sell `size` shares of a Poly leg (all of it by default) back into the bid. */
+async function unwindPolyLeg(st: SumArbState, m: MarketState, leg: PolyLeg, bid: number, size = leg.size): Promise<boolean> {
+  const order: OrderEvent = { venue: "polymarket", action: "sell", side: leg.side, instrument: leg.tokenId, price: bid, size, status: "submitted" };
+  const result = await sellPolymarketOrder(leg.tokenId, size, { forcePlace: true, conditionId: m.conditionId });
+  if (result && !("error" in result)) {
+    recordOrder(st, m, { ...order, status: "ok" });
+    return true;
+  }
+  recordOrder(st, m, { ...order, status: "failed", error: result ? result.error : "Polymarket not configured", rejectedLocally: result?.local });
+  return false;
+}
+
+/** Buy both legs side by side and resolve one-sided outcomes (retry the Poly leg, else unwind what went in). */
+async function enterArb(st: SumArbState, m: MarketState, legs: ArbLegs, poly: PolymarketPrices, size: number): Promise<StrategyDecision> {
+  const kalshiPriceCents = kalshiLimitCents(legs.kalshiAskCents);
+  const kalshiSide = legs.kalshiSide === "UP" ? "yes" : "no";
+  const polyPrice = polyLimitPrice(legs.polyAsk);
+  const openedAt = new Date().toISOString();
+  log(
+    m,
+    `[SumArb] Opportunity ${m.ticker}: Kalshi ${legs.kalshiSide} ${(legs.kalshiAskCents / 100).toFixed(2)} + Poly ${legs.polySide} ${legs.polyAsk.toFixed(2)} = ${legs.sum.toFixed(2)} in [${ARB_SUM_LOW}, ${ARB_SUM_THRESHOLD}); buying ${size} of each${ARB_DRY_RUN ? " (DRY RUN)" : ""}`
+  );
+  const kalshiOrder: OrderEvent = {
+    venue: "kalshi",
+    action: "buy",
+    side: legs.kalshiSide,
+    instrument: m.ticker,
+    price: kalshiPriceCents / 100,
+    size,
+    status: "submitted",
+  };
+  const polyOrder: OrderEvent = {
+    venue: "polymarket",
+    action: "buy",
+    side: legs.polySide,
+    instrument: legs.tokenId,
+    price: legs.polyAsk,
+    size,
+    status: "submitted",
+  };
+  const kalshiLeg = (orderId: string, count: number): HedgeLeg => ({ ticker: m.ticker, side: kalshiSide, count, priceCents: kalshiPriceCents, orderId, placedAt: openedAt });
+  const polyLeg = (orderId: string, filled: number): PolyLeg => ({ side: legs.polySide, tokenId: legs.tokenId, size: filled, price: polyPrice, orderId });
+
+  if (ARB_DRY_RUN) {
+    recordOrder(st, m, { ...kalshiOrder, dryRun: true });
+    recordOrder(st, m, { ...polyOrder, dryRun: true });
+    m.position = { kalshi: kalshiLeg("dry-run", size), poly: polyLeg("dry-run", size), openedAt };
+    return decision("enter", `sum ${legs.sum.toFixed(2)} (dry run)`, legs.kalshiSide);
+  }
+
+  // IOC / FOK: each leg is what filled at placement; nothing is left resting to fill after the arb is booked.
+  const [kalshiResult, polyResult] = await Promise.all([
+    placeOrder(m.ticker, kalshiSide, size, kalshiPriceCents, { arbLive: true, timeInForce: "immediate_or_cancel" }),
+    placePolymarketOrder(legs.tokenId, legs.polyAsk, size, { forcePlace: true, conditionId: m.conditionId, fillOrKill: true }),
+  ]);
+  const kalshiFilled = "error" in kalshiResult ? 0 : kalshiResult.filledCount;
+  const polyFilled = polyResult && !("error" in polyResult) ? polyResult.filledSize ?? size : 0;
+  const kalshiOrderId = "error" in kalshiResult || kalshiFilled < 1 ? null : kalshiResult.orderId;
+  const polyOrderId = polyResult && !("error" in polyResult) ? polyResult.orderId : null;
+  const kalshiError = "error" in kalshiResult ? kalshiResult.error : kalshiFilled < 1 ? "nothing filled (IOC)" : null;
+  const polyError = polyResult == null ? "Polymarket not configured" : "error" in polyResult ? polyResult.error : null;
+  recordOrder(st, m, kalshiError ? { ...kalshiOrder, status: "failed", error: kalshiError } : { ...kalshiOrder, size: kalshiFilled, status: "ok" });
+  const polyLocal = polyResult != null && "error" in polyResult ? polyResult.local : undefined;
+  recordOrder(st, m, polyError ? { ...polyOrder, status: "failed", error: polyError, rejectedLocally: polyLocal } : { ...polyOrder, size: polyFilled, status: "ok" });
+
+  if (kalshiOrderId == null && polyOrderId == null) {
+    m.failedEntries++;
+    log(m, `[SumArb] Both legs failed (${m.failedEntries}/${MAX_ENTRY_ATTEMPTS}): Kalshi ${kalshiError}; Poly ${polyError}`, "error");
+    if (m.failedEntries >= MAX_ENTRY_ATTEMPTS) m.doneReason = "both legs failed repeatedly";
+    return decision("enter", `both legs failed: ${kalshiError}; ${polyError}`, legs.kalshiSide);
+  }
+
+  if (kalshiOrderId != null && polyOrderId != null) {
+    const kalshi = kalshiLeg(kalshiOrderId, kalshiFilled);
+    const held = polyLeg(polyOrderId, polyFilled);
+    m.position = { kalshi, poly: held, openedAt };
+    // Kalshi filled short of the Poly shares: sell the shares without a contract back.
+    const excess = Math.floor((held.size - kalshi.count) * 100) / 100;
+    if (excess >= 1) {
+      log(m, `[SumArb] Leg risk: Kalshi ${legs.kalshiSide} filled ${kalshi.count} of ${size}; unwinding ${excess.toFixed(2)} Poly ${legs.polySide} shares`, "warn");
+      if (await unwindPolyLeg(st, m, held, legs.polySide === "UP" ? poly.upBid : poly.downBid, excess)) {
+        held.size = Math.round((held.size - excess) * 100) / 100;
+      } else {
+        log(m, `[SumArb] Excess Poly shares could not be sold back; ${excess.toFixed(2)} held unhedged to resolution`, "error");
+      }
+    }
+  } else if (kalshiOrderId != null) {
+    // Kalshi in, Poly out: retry the Poly leg, else sell the Kalshi leg back.
+    const kalshi = kalshiLeg(kalshiOrderId, kalshiFilled);
+    const retried = await retryPolyLeg(st, m, legs, kalshi, kalshi.count, polyError ?? "");
+    if (!("error" in retried)) {
+      m.position = { kalshi, poly: retried, openedAt };
+    } else {
+      log(m, `[SumArb] Leg risk: Poly ${legs.polySide} leg failed (${retried.error}); unwinding Kalshi ${legs.kalshiSide} x${kalshi.count}`, "warn");
+      const stillHeld = await unwindKalshiLeg(st, m, kalshi);
+      m.doneReason = `Poly leg failed: ${retried.error}`;
+      if (stillHeld < 1) {
+        log(m, "[SumArb] Kalshi leg sold back; no arb on this market");
+        return decision("exit", "leg risk: Poly leg failed, Kalshi leg unwound", legs.kalshiSide);
+      }
+      kalshi.count = stillHeld;
+      m.position = { kalshi, poly: null, openedAt };
+      persistArb(m);
+      recordArbEntry(m);
+      log(m, `[SumArb] Kalshi leg could not be sold back; holding ${describeArb(m.position)} to resolution`, "error");
+      return decision("hold", "leg risk: Kalshi leg held one-sided", legs.kalshiSide);
+    }
+  } else if (polyOrderId != null) {
+    // Poly in, Kalshi out: sell the Poly leg back.
+    const leg = polyLeg(polyOrderId, polyFilled);
+    log(m, `[SumArb] Leg risk: Kalshi ${legs.kalshiSide} leg failed (${kalshiError}); unwinding Poly ${legs.polySide} x${leg.size}`, "warn");
+    const unwound = await unwindPolyLeg(st, m, leg, legs.polySide === "UP" ? poly.upBid : poly.downBid);
+    m.doneReason = `Kalshi leg failed: ${kalshiError}`;
+    if (unwound) {
+      log(m, "[SumArb] Poly leg sold back; no arb on this market");
+      return decision("exit", "leg risk: Kalshi leg failed, Poly leg unwound", legs.polySide);
+    }
+    m.position = { kalshi: null, poly: leg, openedAt };
+    persistArb(m);
+    recordArbEntry(m);
+    log(m, `[SumArb] Poly leg could not be sold back; holding ${describeArb(m.position)} to resolution`, "error");
+    return decision("hold", "leg risk: Poly leg held one-sided", legs.polySide);
+  }
+
+  persistArb(m);
+  recordArbEntry(m);
+  const { cost, payout, pnl } = accountArb(m.position!);
+  log(m, `[SumArb] Arb in: ${describeArb(m.position!)}; cost $${cost.toFixed(2)}, locked payout $${payout.toFixed(2)}, P/L $${pnl.toFixed(2)}; held to resolution`);
+  return decision("enter", `sum ${legs.sum.toFixed(2)}`, legs.kalshiSide);
+}
+
+/**
+ * Entry refused by the depth check, the risk manager, the balance guard or a circuit breaker: log the reason when its
+ * `key` changes (defaults to the reason; the depth check keys on its outcome, its numbers move every tick).
+ */
+function blockEntry(m: MarketState, reason: string, key = reason): StrategyDecision {
+  if (m.blockNote !== key) log(m, `[SumArb] Entry on ${m.ticker} blocked: ${reason}`, "warn");
+  m.blockNote = key;
+  return decision("skip", reason);
+}
+
+async function checkSumArb(st: SumArbState, p: DualMarketPrices): Promise<StrategyDecision> {
+  if (!p.kalshi || !p.polymarket) return decision("none", "waiting for both venues");
+  const s = getAssetState(st, p.asset);
+  if (s.busy) return decision("busy", "previous tick still running");
+  const nowMs = Date.now();
+  evictClosedMarkets(st, nowMs, (m) => settleMarket(st, m));
+  s.busy = true;
+  try {
+    const m = getMarketState(st, s, p, nowMs);
+    if (m.position) return decision("hold", `held to resolution: ${describeArb(m.position)}`);
+    if (m.doneReason) return decision("skip", m.doneReason);
+
+    const stale = staleFeeds(p.asset);
+    if (stale.length > 0) {
+      if (!s.feedsStale) log(s, `[SumArb] Feed stale, no entries: ${stale.map((h) => `${h.venue}: ${h.reason ?? "stale"}`).join("; ")}`, "warn");
+      s.feedsStale = true;
+      return decision("skip", `feed stale: ${stale.map((h) => h.venue).join(", ")}`);
+    }
+    if (s.feedsStale) log(s, "[SumArb] Feeds fresh again");
+    s.feedsStale = false;
+
+    // Both legs must resolve on the same window, or the pair is not a hedge.
+    if (!p.pair?.matched) {
+      if (!m.unpairedLogged) {
+        m.unpairedLogged = true;
+        log(m, `[SumArb] Refusing entry on ${m.ticker}: Kalshi/Polymarket pair not verified (${p.pair?.mismatch ?? "no pair"})`, "warn");
+      }
+      return decision("skip", `pair not verified: ${p.pair?.mismatch ?? "no pair"}`);
+    }
+
+    let size = Math.floor(ARB_SIZE);
+    if (size < ARB_KALSHI_MIN || size < ARB_POLY_MIN) {
+      return decision("skip", `ARB_SIZE ${size} below ARB_KALSHI_MIN ${ARB_KALSHI_MIN} / ARB_POLY_MIN ${ARB_POLY_MIN}`);
+    }
+    const kalshiGate = st.breakers.kalshi.gate(nowMs);
+    if (!kalshiGate.allowed) return blockEntry(m, kalshiGate.reason);
+    const polyGate = st.breakers.polymarket.gate(nowMs);
+    if (!polyGate.allowed) return blockEntry(m, polyGate.reason);
+    const legs = findArb(p.kalshi, p.polymarket);
+    if ("reason" in legs) return decision("none", legs.reason);
+    // Half-open: probe at the smallest size both venues accept.
+    const probes = [probeSize(kalshiGate, "kalshi", legs.kalshiAskCents / 100), probeSize(polyGate, "polymarket", legs.polyAsk)]
+      .filter((x): x is number => x != null);
+    if (probes.length > 0) size = Math.min(size, Math.max(...probes, ARB_KALSHI_MIN, ARB_POLY_MIN));
+    // Both legs must fill the same size: take the smaller of what each book allows.
+    const kalshiBook = legs.kalshiSide === "UP" ? p.kalshi.upBook : p.kalshi.downBook;
+    const polyBook = legs.polySide === "UP" ? p.polymarket.upBook : p.polymarket.downBook;
+    const minSize = Math.max(ARB_KALSHI_MIN, ARB_POLY_MIN);
+    const kalshiDepth = checkBuyDepth(levelsInDollars(kalshiBook.asks), legs.kalshiAskCents / 100, kalshiLimitCents(legs.kalshiAskCents) / 100, size, minSize);
+    const polyDepth = checkBuyDepth(polyBook.asks, legs.polyAsk, polyLimitPrice(legs.polyAsk), size, minSize);
+    size = Math.min(kalshiDepth.size, polyDepth.size);
+    if (size < minSize) {
+      return blockEntry(m, `depth Kalshi ${kalshiDepth.detail}; Poly ${polyDepth.detail}`, `depth ${kalshiDepth.outcome}/${polyDepth.outcome}`);
+    }
+    const notional = {
+      kalshi: (kalshiLimitCents(legs.kalshiAskCents) / 100) * size,
+      polymarket: polyLimitPrice(legs.polyAsk) * size,
+    };
+    const blocked = checkEntry(notional);
+    if (blocked) return blockEntry(m, `risk ${blocked}`);
+    const balance = checkBalanceForEntry(notional);
+    if (balance) return blockEntry(m, `balance ${balance}`);
+    m.blockNote = null;
+    log(m, `[SumArb] Depth check ${m.ticker}: size ${size}; Kalshi ${kalshiDepth.detail}; Poly ${polyDepth.detail}`);
+    return await enterArb(st, m, legs, p.polymarket, size);
+  } finally {
+    s.busy = false;
+  }
+}
+
+/** Startup: put the asset's persisted arbs back (blocks re-entry); arbs of closed slots are settled. */
+function restoreArbs(st: SumArbState, s: AssetState, nowMs: number): void {
+  for (const x of loadPositions(STRATEGY_NAME).filter((y) => y.asset === s.asset)) {
+    const m = addMarket(st, s, x.ticker, x.conditionId, x.closeMs);
+    m.position = x.venue === "kalshi"
+      ? {
+          poly: null,
+          kalshi: { ticker: x.ticker, side: x.side === "UP" ? "yes" : "no", count: x.size, priceCents: Math.round(x.entryPrice * 100), orderId: "", placedAt: x.openedAt },
+          openedAt: x.openedAt,
+        }
+      : {
+          poly: { side: x.side, tokenId: x.tokenId, size: x.size, price: x.entryPrice, orderId: "" },
+          kalshi: x.hedge ?? null,
+          openedAt: x.openedAt,
+        };
+    log(s, `[SumArb] Restored ${describeArb(m.position)} on ${x.ticker}`);
+    if (nowMs >= x.closeMs) settleMarket(st, m);
+  }
+}
+
+/** A new, isolated sum-arb instance. */
+export function createSumArbStrategy(): Strategy {
+  const st: SumArbState = {
+    ...createStrategyRuntime<MarketState>(STRATEGY_NAME),
+    totals: { arbs: 0, cost: 0, pnl: 0 },
+    announced: false,
+  };
+  return {
+    name: STRATEGY_NAME,
+    init(ctx) {
+      st.orderReporters.set(ctx.asset, ctx.reportOrder);
+      if (!st.announced) {
+        st.announced = true;
+        console.log(
+          `[SumArb] Strategy: buy Kalshi side + opposite Poly side when sum in [${ARB_SUM_LOW}, ${ARB_SUM_THRESHOLD}), size=${ARB_SIZE} maxDivergence=${ARB_MAX_DIVERGENCE} minSideProb=${ARB_MIN_SIDE_PROB} polyRetries=${ARB_POLY_PLACE_RETRY_LIMIT} circuit kalshi=${st.breakers.kalshi.describe()} poly=${st.breakers.polymarket.describe()}${ARB_DRY_RUN ? " (DRY RUN)" : ""}`
+        );
+        if (Math.floor(ARB_SIZE) < ARB_KALSHI_MIN || Math.floor(ARB_SIZE) < ARB_POLY_MIN) {
+          console.warn(`[SumArb] ARB_SIZE ${ARB_SIZE} is below ARB_KALSHI_MIN ${ARB_KALSHI_MIN} / ARB_POLY_MIN ${ARB_POLY_MIN}; no entries`);
+        }
+      }
+      restoreArbs(st, getAssetState(st, ctx.asset), Date.now());
+    },
+    onTick: (p) => checkSumArb(st, p),
+    onSlotEnd: (info) => expireOnSlotEnd(st, info, (m) => settleMarket(st, m)),
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Structured tick log: one JSON object per line in logs/monitor_[{asset}_]{slot}.jsonl, next to the human .log.
+ * Records every tick (full DualMarketPrices + the strategy decision) and every order event, so analysis tooling
+ * reads exact prices, tickers and token IDs instead of re-parsing formatDualPricesLine.
+ * Records are buffered and appended every TICK_RECORDER_FLUSH_MS off the tick path; what is still buffered at exit is
+ * written synchronously.
+ * Bump TICK_SCHEMA_VERSION whenever a record changes shape.
+ */
+import * as fs from "fs";
+import { TICK_RECORDER_ENABLED, TICK_RECORDER_FLUSH_MS } from "../core/config";
+import { monitorLogPath } from "../core/monitor-logger";
+import type { DualMarketPrices } from "./dual-monitor";
+
+export const TICK_SCHEMA_VERSION = 2;
+
+/** What the strategy did with a tick. */
+export interface StrategyDecision {
+  strategy: string;
+  action: "none" | "busy" | "skip" | "hold" | "enter" | "exit";
+  side?: "UP" | "DOWN";
+  reason: string;
+}
+
+export interface OrderEvent {
+  /** Strategy that placed the order */
+  strategy?: string;
+  venue: "kalshi" | "polymarket";
+  action: "buy" | "sell";
+  side: "UP" | "DOWN";
+  /** Kalshi ticker or Polymarket token ID */
+  instrument: string;
+  price: number | null;
+  size: number;
+  status: "submitted" | "ok" | "failed";
+  error?: string;
+  /** Failed before reaching the venue (e.g. below its minimum order); not held against the venue's circuit breaker */
+  rejectedLocally?: boolean;
+  attempt?: number;
+  dryRun?: boolean;
+}
+
+export interface TickRecord {
+  v: number;
+  type: "tick";
+  at: string;
+  asset: string;
+  tick: DualMarketPrices;
+  /** One decision per running strategy (v1 had a single `decision`) */
+  decisions: StrategyDecision[];
+}
+
+export interface OrderRecord {
+  v: number;
+  type: "order";
+  at: string;
+  asset: string;
+  order: OrderEvent;
+}
+
+export type MonitorRecord = TickRecord | OrderRecord;
+
+/** Lines waiting to be appended, per .jsonl file, in arrival order */
+const pending = new Map<string, string[]>();
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+/** Last flush; the next one chains on it so a file's records stay in order */
+let flushing: Promise<void> = Promise.resolve();
+
+function takePending(): Array<[string, string]> {
+  const batches = [...pending.entries()].map(([file, lines]): [string, string] => [file, lines.join("\n") + "\n"]);
+  pending.clear();
+  return batches;
+}
+
+/** Append the buffered records (async; called every TICK_RECORDER_FLUSH_MS). */
+export function flushTickRecords(): Promise<void> {
+  flushing = flushing.then(async () => {
+    for (const [file, data] of takePending()) {
+      try {
+        await fs.promises.appendFile(file, data, "utf8");
+      } catch (e) {
+        console.error("Tick recorder append error:", e);
+      }
+    }
+  });
+  return flushing;
+}
+
+/** On exit an async write would not complete: append what is still buffered synchronously. */
+function flushTickRecordsSync(): void {
+  for (const [file, data] of takePending()) {
+    try {
+      fs.appendFileSync(file, data, "utf8");
+    } catch (e) {
+      console.error("Tick recorder append error:", e);
+    }
+  }
+}
+
+function write(record: MonitorRecord, stream: string | undefined): void {
+  if (!TICK_RECORDER_ENABLED) return;
+  const file = monitorLogPath(new Date(record.at), stream, ".jsonl");
+  let lines = pending.get(file);
+  if (!lines) {
+    lines = [];
+    pending.set(file, lines);
+  }
+  lines.push(JSON.stringify(record));
+  if (!flushTimer) {
+    flushTimer = setInterval(() => void flushTickRecords(), TICK_RECORDER_FLUSH_MS);
+    flushTimer.unref();
+    process.once("exit", flushTickRecordsSync);
+  }
+}
+
+export function recordTick(tick: DualMarketPrices, decisions: StrategyDecision[], stream?: string): void {
+  write({ v: TICK_SCHEMA_VERSION, type: "tick", at: new Date().toISOString(), asset: tick.asset, tick, decisions }, stream);
+}
+
+export function recordOrderEvent(asset: string, order: OrderEvent, stream?: string): void {
+  write({ v: TICK_SCHEMA_VERSION, type: "order", at: new Date().toISOString(), asset, order }, stream);
+}
+
+/** v1 tick records carried a single `decision` instead of `decisions`. */
+type TickRecordV1 = Omit<TickRecord, "decisions"> & { decision?: StrategyDecision };
+
+/** Bring a record from an older schema version up to TICK_SCHEMA_VERSION; null when it cannot be read. */
+function upgradeRecord(record: MonitorRecord | TickRecordV1): MonitorRecord | null {
+  if (record.v === TICK_SCHEMA_VERSION) return record as MonitorRecord;
+  if (record.v !== 1) return null;
+  if (record.type === "order") return { ...record, v: TICK_SCHEMA_VERSION } as OrderRecord;
+  const { decision, ...rest } = record as TickRecordV1;
+  return { ...rest, v: TICK_SCHEMA_VERSION, decisions: decision ? [decision] : [] };
+}
+
+/**
+ * Parse a .jsonl file written by the recorder. v1 lines are upgraded to the current shape; lines from an unknown
+ * schema version are skipped.
+ */
+export function readMonitorRecords(filePath: string): MonitorRecord[] {
+  const records: MonitorRecord[] = [];
+  for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = upgradeRecord(JSON.parse(line) as MonitorRecord | TickRecordV1);
+      if (record) records.push(record);
+    } catch {
+      // ignore partial last line
+    }
+  }
+  return records;
+}
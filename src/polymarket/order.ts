@@ -4,7 +4,7 @@
  */
 import * as fs from "fs";
 import * as path from "path";
-import { Side, OrderType, AssetType } from "@polymarket/clob-client";
+import { Side, OrderType, AssetType, type OpenOrder } from "@polymarket/clob-client";
 import {
   POLYMARKET_PRIVATE_KEY,
   POLYMARKET_PROXY,
@@ -21,13 +21,19 @@ import {
 import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
 import { addHolding } from "./holdings";
 
-export type PlacePolyResult = { orderId: string } | { error: string } | null;
+/**
+ * `filledSize`: shares bought, known for fill-or-kill buys (a GTC buy may still be resting). `local`: refused here before
+ * reaching the CLOB (below POLYMARKET_MIN_USD, invalid size), so it says nothing about the venue.
+ */
+export type PlacePolyResult = { orderId: string; filledSize?: number } | { error: string; local?: true } | null;
 
 export interface PlacePolymarketOrderOptions {
   tickSize?: "0.01" | "0.001" | "0.0001";
   negRisk?: boolean;
   forcePlace?: boolean;
   conditionId?: string;
+  /** Buy as FOK at the limit price instead of GTC: the whole size fills now or nothing does */
+  fillOrKill?: boolean;
 }
 
 let cachedClient: Awaited<ReturnType<typeof buildClobClient>> | null = null;
@@ -124,6 +130,19 @@ export async function getPolymarketBalanceUsd(): Promise<number | null> {
   }
 }
 
+/** Open CLOB orders of this account on one token (resting limit buys/sells). Returns null if not configured or the request failed. */
+export async function getPolymarketOpenOrders(tokenId: string): Promise<OpenOrder[] | null> {
+  if (!POLYMARKET_PRIVATE_KEY || !POLYMARKET_PROXY) return null;
+  try {
+    const client = await getClobClient();
+    return await client.getOpenOrders({ asset_id: tokenId });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.warn("[Polymarket] Open orders request failed:", msg);
+    return null;
+  }
+}
+
 /** Delay (ms) before we check order status after place. 200ms gives the API time to have the order available. */
 const FULFILLMENT_CHECK_MS = 200;
 
@@ -183,14 +202,14 @@ export async function placePolymarketOrder(
     const msg = `Polymarket order notional $${(price * size).toFixed(2)} below min $${minUsd}. Use size >= ${Math.ceil(minUsd / price)} (or set POLYMARKET_MIN_USD).`;
     console.error(msg);
     appendMonitorLogWithTimestamp(msg);
-    return { error: msg };
+    return { error: msg, local: true };
   }
   try {
     const clobClient = await getClobClient();
     const tickSize = options?.tickSize ?? POLYMARKET_TICK_SIZE;
     const negRisk = options?.negRisk ?? POLYMARKET_NEG_RISK;
 
-    // Limit buy: price = Math.min(recent price + buffer, 0.99). GTC so order rests on book if not immediately filled.
+    // Limit buy: price = Math.min(recent price + buffer, 0.99). GTC so order rests on book if not immediately filled (unless fillOrKill).
     const limitPrice = Math.min(price + POLY_BUY_LIMIT_BUFFER, 0.99);
     const roundedPrice = roundPriceToTickSize(limitPrice, tickSize);
     const notionalUsd = roundedPrice * size;
@@ -198,35 +217,51 @@ export async function placePolymarketOrder(
       const msg = `Polymarket limit order notional $${(roundedPrice * size).toFixed(2)} below min $${minUsd}.`;
       console.error(msg);
       appendMonitorLogWithTimestamp(msg);
-      return { error: msg };
+      return { error: msg, local: true };
     }
-    const resp = await clobClient.createAndPostOrder(
-      {
-        tokenID: tokenId,
-        price: roundedPrice,
-        side: Side.BUY,
-        size,
-      },
-      { tickSize, negRisk },
-      OrderType.GTC
-    );
-    const data = resp as { orderID?: string; orderId?: string; error?: string; errorMsg?: string };
+    const fillOrKill = options?.fillOrKill === true;
+    const label = fillOrKill ? "FOK buy" : "limit buy";
+    // FOK: market buy of the notional (USD, cents) capped at the limit price, matched in full at once or not at all.
+    const resp = fillOrKill
+      ? await clobClient.createAndPostMarketOrder(
+          {
+            tokenID: tokenId,
+            price: roundedPrice,
+            amount: Math.round(notionalUsd * 100) / 100,
+            side: Side.BUY,
+          },
+          { tickSize, negRisk },
+          OrderType.FOK
+        )
+      : await clobClient.createAndPostOrder(
+          {
+            tokenID: tokenId,
+            price: roundedPrice,
+            side: Side.BUY,
+            size,
+          },
+          { tickSize, negRisk },
+          OrderType.GTC
+        );
+    const data = resp as { orderID?: string; orderId?: string; error?: string; errorMsg?: string; takingAmount?: string };
     const orderId = data.orderID ?? data.orderId;
     const errMsg = data.error ?? data.errorMsg;
     if (errMsg || !orderId) {
       const msg = errMsg ?? "No order ID in response";
-      console.error("Polymarket limit buy order failed:", msg);
-      appendMonitorLogWithTimestamp(`Polymarket limit buy order failed: ${msg}`);
+      console.error(`Polymarket ${label} order failed:`, msg);
+      appendMonitorLogWithTimestamp(`Polymarket ${label} order failed: ${msg}`);
       return { error: msg };
     }
-    const msg = `Polymarket limit buy placed: ${orderId} token=${tokenId.slice(0, 12)}... notional=$${notionalUsd.toFixed(2)} (limitPrice=${roundedPrice} size=${size})`;
+    // A filled buy takes shares for the USD it makes.
+    const filledSize = fillOrKill ? parseFloat(data.takingAmount ?? "") || size : undefined;
+    const msg = `Polymarket ${label} placed: ${orderId} token=${tokenId.slice(0, 12)}... notional=$${notionalUsd.toFixed(2)} (limitPrice=${roundedPrice} size=${size}${filledSize != null ? ` filled=${filledSize}` : ""})`;
     console.log(msg);
     appendMonitorLogWithTimestamp(msg);
     if (options?.conditionId) {
-      addHolding(options.conditionId, tokenId, size);
+      addHolding(options.conditionId, tokenId, filledSize ?? size);
     }
-    scheduleFulfillmentCheck(String(orderId), clobClient);
-    return { orderId: String(orderId) };
+    if (!fillOrKill) scheduleFulfillmentCheck(String(orderId), clobClient);
+    return fillOrKill ? { orderId: String(orderId), filledSize } : { orderId: String(orderId) };
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
     const resp = (err as { response?: { data?: unknown } })?.response?.data;
@@ -250,7 +285,7 @@ export async function sellPolymarketOrder(
     return null;
   }
   if (size <= 0) {
-    return { error: "Sell size must be positive" };
+    return { error: "Sell size must be positive", local: true };
   }
   try {
     const clobClient = await getClobClient();
@@ -1,21 +1,22 @@
 /**
- * Polymarket prices for Bitcoin 15m up/down market (ask only).
- * Slug = btc-updown-15m-{timestamp}; Gamma API for token IDs, CLOB for order book.
+ * Polymarket prices for up/down markets (best bid/ask, sizes and top levels).
+ * Slug = btc-updown-15m-{timestamp} (or the asset's slot schedule/template); Gamma API for token IDs, CLOB for order book.
  */
+import { MONITOR_BOOK_DEPTH } from "../core/config";
+import { polymarketSlugForSlot, SLOT_SCHEDULES, type SlotSchedule } from "../core/slot-schedule";
+import type { QuoteTiming } from "../core/feed-health";
+import { topLevels, type BookDepth } from "../core/order-book";
+import { parseWindowTime } from "../monitor/market-pair";
 
 const GAMMA_API_BASE = "https://gamma-api.polymarket.com";
 const CLOB_API_BASE = "https://clob.polymarket.com";
 
-/** Slug for current 15m window (e.g. btc-updown-15m-1738641600). Used for Gamma token lookup. */
-export function slugForCurrent15m(market: string): string {
-  const d = new Date();
-  d.setSeconds(0, 0);
-  d.setMilliseconds(0);
-  const m = d.getMinutes();
-  const slotMin = Math.floor(m / 15) * 15;
-  d.setMinutes(slotMin, 0, 0);
-  const timestamp = Math.floor(d.getTime() / 1000);
-  return `${market}-updown-15m-${timestamp}`;
+/**
+ * Slug for the current slot of `schedule` (e.g. btc-updown-15m-1738641600). Used for Gamma token lookup.
+ * `market` is an asset ("btc"), a slug prefix ("eth-updown-15m") or a slug template (see polymarketSlugForSlot).
+ */
+export function slugForCurrentSlot(market: string, schedule: SlotSchedule = SLOT_SCHEDULES["15m"]): string {
+  return polymarketSlugForSlot(market, schedule, Date.now());
 }
 
 function parseJsonArray<T>(raw: unknown): T[] {
@@ -31,9 +32,17 @@ function parseJsonArray<T>(raw: unknown): T[] {
   return [];
 }
 
-async function fetchTokenIdsForSlug(
-  slug: string
-): Promise<{ upTokenId: string; downTokenId: string; conditionId: string }> {
+/** Token IDs and market window for one Up/Down slug. */
+export interface PolymarketMarketTokens {
+  upTokenId: string;
+  downTokenId: string;
+  conditionId: string;
+  /** Window the market resolves on (UTC ms): Gamma eventStartTime (falls back to startDate) and endDate; null if missing */
+  startMs: number | null;
+  endMs: number | null;
+}
+
+async function fetchTokenIdsForSlug(slug: string): Promise<PolymarketMarketTokens> {
   const url = `${GAMMA_API_BASE}/markets/slug/${slug}`;
   const res = await fetch(url);
   if (!res.ok) {
@@ -43,6 +52,9 @@ async function fetchTokenIdsForSlug(
     outcomes?: unknown;
     clobTokenIds?: unknown;
     conditionId?: string;
+    eventStartTime?: string;
+    startDate?: string;
+    endDate?: string;
   };
   const outcomes = parseJsonArray<string>(data.outcomes);
   const tokenIds = parseJsonArray<string>(data.clobTokenIds);
@@ -59,83 +71,154 @@ async function fetchTokenIdsForSlug(
     upTokenId: tokenIds[upIdx],
     downTokenId: tokenIds[downIdx],
     conditionId,
+    startMs: parseWindowTime(data.eventStartTime) ?? parseWindowTime(data.startDate),
+    endMs: parseWindowTime(data.endDate),
   };
 }
 
-let tokenIdsCache: { slug: string; upTokenId: string; downTokenId: string; conditionId: string } | null = null;
+/** Token IDs by slug; one entry per monitored asset's current slot, so keep only a few recent slugs. */
+const tokenIdsCache = new Map<string, PolymarketMarketTokens>();
+const TOKEN_IDS_CACHE_MAX = 16;
 
-export async function getTokenIdsForSlugCached(
-  slug: string
-): Promise<{ upTokenId: string; downTokenId: string; conditionId: string }> {
-  const c = tokenIdsCache;
-  if (c && c.slug === slug) {
-    return { upTokenId: c.upTokenId, downTokenId: c.downTokenId, conditionId: c.conditionId };
-  }
+export async function getTokenIdsForSlugCached(slug: string): Promise<PolymarketMarketTokens> {
+  const c = tokenIdsCache.get(slug);
+  if (c) return { ...c };
   const fresh = await fetchTokenIdsForSlug(slug);
-  tokenIdsCache = {
-    slug,
-    upTokenId: fresh.upTokenId,
-    downTokenId: fresh.downTokenId,
-    conditionId: fresh.conditionId,
+  tokenIdsCache.set(slug, { ...fresh });
+  if (tokenIdsCache.size > TOKEN_IDS_CACHE_MAX) {
+    const oldest = tokenIdsCache.keys().next().value;
+    if (oldest !== undefined) tokenIdsCache.delete(oldest);
+  }
+  return fresh;
+}
+
+/** CLOB book / market-channel timestamp (unix ms as a string). */
+export function parsePolyTimestamp(raw: string | undefined): Date | null {
+  const ms = Number(raw);
+  return raw && Number.isFinite(ms) ? new Date(ms) : null;
+}
+
+/** Price string → size map for one side of a /book or market-channel book. */
+export function polyLevelsToMap(levels: Array<{ price: string; size: string }> | undefined): Map<number, number> {
+  const map = new Map<number, number>();
+  for (const level of levels ?? []) {
+    const p = parseFloat(level.price);
+    const size = parseFloat(level.size);
+    if (Number.isFinite(p) && Number.isFinite(size) && size > 0) map.set(p, size);
+  }
+  return map;
+}
+
+/** Fetch the full CLOB book for a token, top `depth` levels per side, best first, with the book's exchange time. */
+export async function getOrderBookForToken(
+  tokenId: string,
+  depth: number = MONITOR_BOOK_DEPTH
+): Promise<(BookDepth & { exchangeAt: Date | null }) | null> {
+  const url = `${CLOB_API_BASE}/book?token_id=${encodeURIComponent(tokenId)}`;
+  const res = await fetch(url);
+  if (!res.ok) return null;
+  const data = (await res.json()) as {
+    bids?: Array<{ price: string; size: string }>;
+    asks?: Array<{ price: string; size: string }>;
+    timestamp?: string;
   };
   return {
-    upTokenId: fresh.upTokenId,
-    downTokenId: fresh.downTokenId,
-    conditionId: fresh.conditionId,
+    bids: topLevels(polyLevelsToMap(data.bids), "bid", depth),
+    asks: topLevels(polyLevelsToMap(data.asks), "ask", depth),
+    exchangeAt: parsePolyTimestamp(data.timestamp),
   };
 }
 
 /** Fetch current best ask for a token from CLOB (for retries). */
 export async function getBestAskForToken(tokenId: string): Promise<number | null> {
-  const url = `${CLOB_API_BASE}/book?token_id=${encodeURIComponent(tokenId)}`;
-  const res = await fetch(url);
-  if (!res.ok) return null;
-  const data = (await res.json()) as { asks?: Array<{ price: string; size: string }> };
-  const asks = data.asks;
-  if (!Array.isArray(asks) || asks.length === 0) return null;
-  let best = Infinity;
-  for (const level of asks) {
-    const p = parseFloat(level.price);
-    if (Number.isFinite(p) && p < best) best = p;
-  }
-  return best === Infinity ? null : best;
+  const book = await getOrderBookForToken(tokenId, 1);
+  return book?.asks[0]?.price ?? null;
 }
 
-export interface PolymarketPrices {
+export interface PolymarketPrices extends QuoteTiming {
   slug: string;
   upAsk: number;
   downAsk: number;
+  /** Best bids (0 when the side has no bids) */
+  upBid: number;
+  downBid: number;
+  upAskSize: number;
+  downAskSize: number;
+  upBidSize: number;
+  downBidSize: number;
+  /** Top MONITOR_BOOK_DEPTH levels per token, best first */
+  upBook: BookDepth;
+  downBook: BookDepth;
   upTokenId: string;
   downTokenId: string;
   conditionId: string;
-  fetchedAt: Date;
+  /** Market window from Gamma (see PolymarketMarketTokens) */
+  startMs: number | null;
+  endMs: number | null;
+}
+
+/** Build PolymarketPrices from the Up/Down books; null when either side has no ask. */
+export function buildPolymarketPrices(
+  slug: string,
+  tokens: PolymarketMarketTokens,
+  upBook: BookDepth,
+  downBook: BookDepth,
+  timing: Partial<Omit<QuoteTiming, "fetchedAt">> = {}
+): PolymarketPrices | null {
+  const upAsk = upBook.asks[0];
+  const downAsk = downBook.asks[0];
+  if (!upAsk || !downAsk) return null;
+  return {
+    slug,
+    upAsk: upAsk.price,
+    downAsk: downAsk.price,
+    upBid: upBook.bids[0]?.price ?? 0,
+    downBid: downBook.bids[0]?.price ?? 0,
+    upAskSize: upAsk.size,
+    downAskSize: downAsk.size,
+    upBidSize: upBook.bids[0]?.size ?? 0,
+    downBidSize: downBook.bids[0]?.size ?? 0,
+    upBook,
+    downBook,
+    upTokenId: tokens.upTokenId,
+    downTokenId: tokens.downTokenId,
+    conditionId: tokens.conditionId,
+    startMs: tokens.startMs,
+    endMs: tokens.endMs,
+    requestedAt: timing.requestedAt ?? null,
+    exchangeAt: timing.exchangeAt ?? null,
+    fetchedAt: new Date(),
+  };
 }
 
-export async function getPolymarketAskPrices(market: string = "btc"): Promise<PolymarketPrices | null> {
-  const slug = slugForCurrent15m(market);
+export async function getPolymarketAskPrices(
+  market: string = "btc",
+  schedule: SlotSchedule = SLOT_SCHEDULES["15m"]
+): Promise<PolymarketPrices | null> {
+  const slug = slugForCurrentSlot(market, schedule);
+  const requestedAt = new Date();
   try {
-    const { upTokenId, downTokenId, conditionId } = await getTokenIdsForSlugCached(slug);
-    const [upAsk, downAsk] = await Promise.all([
-      getBestAskForToken(upTokenId),
-      getBestAskForToken(downTokenId),
+    const tokens = await getTokenIdsForSlugCached(slug);
+    const [upBook, downBook] = await Promise.all([
+      getOrderBookForToken(tokens.upTokenId),
+      getOrderBookForToken(tokens.downTokenId),
     ]);
-    if (upAsk == null || downAsk == null) return null;
-    return {
-      slug,
-      upAsk,
-      downAsk,
-      upTokenId,
-      downTokenId,
-      conditionId,
-      fetchedAt: new Date(),
-    };
+    if (upBook == null || downBook == null) return null;
+    const exchangeAt = [upBook.exchangeAt, downBook.exchangeAt].reduce<Date | null>(
+      (oldest, t) => (t && (!oldest || t < oldest) ? t : oldest),
+      null
+    );
+    return buildPolymarketPrices(slug, tokens, upBook, downBook, { requestedAt, exchangeAt });
   } catch {
     return null;
   }
 }
 
-/** Prime token-ID cache for current 15m slot so first opportunity can post Poly order within ~50ms. Call at monitor start. */
-export async function primePolymarketTokenCacheForCurrentSlot(market: string = "btc"): Promise<void> {
-  const slug = slugForCurrent15m(market);
+/** Prime token-ID cache for the current slot so first opportunity can post Poly order within ~50ms. Call at monitor start. */
+export async function primePolymarketTokenCacheForCurrentSlot(
+  market: string = "btc",
+  schedule: SlotSchedule = SLOT_SCHEDULES["15m"]
+): Promise<void> {
+  const slug = slugForCurrentSlot(market, schedule);
   await getTokenIdsForSlugCached(slug).catch(() => {});
 }
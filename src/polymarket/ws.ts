@@ -0,0 +1,251 @@
+/**
+ * Polymarket CLOB market-channel WebSocket for the current slot's Up/Down tokens.
+ * Applies `book` snapshots and `price_change` updates to a local book and pushes PolymarketPrices.
+ * Follows slugForCurrentSlot: when the slot rolls, resolves the new token IDs and resubscribes.
+ */
+import WebSocket from "ws";
+import { MONITOR_BOOK_DEPTH, POLYMARKET_WS_URL } from "../core/config";
+import { topLevels } from "../core/order-book";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import {
+  buildPolymarketPrices,
+  getTokenIdsForSlugCached,
+  parsePolyTimestamp,
+  polyLevelsToMap,
+  slugForCurrentSlot,
+  type PolymarketMarketTokens,
+  type PolymarketPrices,
+} from "./prices";
+import type { SlotSchedule } from "../core/slot-schedule";
+
+const RECONNECT_MIN_MS = 500;
+const RECONNECT_MAX_MS = 10_000;
+/** Server drops idle market-channel connections; it expects a text PING every ~10s. */
+const PING_INTERVAL_MS = 10_000;
+const SLOT_CHECK_MS = 1000;
+
+export interface PolymarketMarketStream {
+  /** True when the socket is open and both Up and Down books have a snapshot for the current slot. */
+  isLive(): boolean;
+  /** Latest prices from the local books, or null if not live. */
+  getPrices(): PolymarketPrices | null;
+  close(): void;
+}
+
+interface TokenBook {
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  ready: boolean;
+}
+
+interface PolyWsLevel {
+  price: string;
+  size: string;
+}
+
+interface PolyWsEvent {
+  event_type?: string;
+  asset_id?: string;
+  timestamp?: string;
+  bids?: PolyWsLevel[];
+  asks?: PolyWsLevel[];
+  changes?: Array<{ price: string; size: string; side: string }>;
+  price_changes?: Array<{ asset_id: string; price: string; size: string; side: string }>;
+}
+
+function log(message: string, stream?: string): void {
+  console.log(stream ? `[${stream}] ${message}` : message);
+  appendMonitorLogWithTimestamp(message, stream);
+}
+
+function emptyBook(): TokenBook {
+  return { bids: new Map(), asks: new Map(), ready: false };
+}
+
+export function startPolymarketMarketStream(options: {
+  market: string;
+  schedule: SlotSchedule;
+  onPrices: (prices: PolymarketPrices) => void;
+  /** Asset log stream (see assetLogStream) */
+  logStream?: string;
+  onStatus?: (live: boolean) => void;
+}): PolymarketMarketStream {
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let live = false;
+  let reconnectDelayMs = RECONNECT_MIN_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  let slug = "";
+  let tokens: PolymarketMarketTokens | null = null;
+  let books = new Map<string, TokenBook>();
+  /** Exchange time of the last applied event */
+  let exchangeAt: Date | null = null;
+  let refreshing = false;
+
+  const setLive = (value: boolean) => {
+    if (live === value) return;
+    live = value;
+    options.onStatus?.(value);
+  };
+
+  const buildPrices = (): PolymarketPrices | null => {
+    if (!tokens) return null;
+    const up = books.get(tokens.upTokenId);
+    const down = books.get(tokens.downTokenId);
+    if (!up?.ready || !down?.ready) return null;
+    const depth = (book: TokenBook) => ({
+      bids: topLevels(book.bids, "bid", MONITOR_BOOK_DEPTH),
+      asks: topLevels(book.asks, "ask", MONITOR_BOOK_DEPTH),
+    });
+    return buildPolymarketPrices(slug, tokens, depth(up), depth(down), { exchangeAt });
+  };
+
+  const push = () => {
+    const prices = buildPrices();
+    setLive(prices != null);
+    if (prices) options.onPrices(prices);
+  };
+
+  const applyChange = (assetId: string, price: string, size: string, side: string) => {
+    const book = books.get(assetId);
+    if (!book) return;
+    const levels = side.toUpperCase() === "BUY" ? book.bids : book.asks;
+    const p = parseFloat(price);
+    const qty = parseFloat(size);
+    if (!Number.isFinite(p)) return;
+    if (Number.isFinite(qty) && qty > 0) levels.set(p, qty);
+    else levels.delete(p);
+  };
+
+  const handleEvent = (ev: PolyWsEvent) => {
+    const ts = parsePolyTimestamp(ev.timestamp);
+    if (ts) exchangeAt = ts;
+    switch (ev.event_type) {
+      case "book": {
+        if (!ev.asset_id || !books.has(ev.asset_id)) return;
+        books.set(ev.asset_id, { bids: polyLevelsToMap(ev.bids), asks: polyLevelsToMap(ev.asks), ready: true });
+        push();
+        return;
+      }
+      case "price_change": {
+        if (Array.isArray(ev.price_changes)) {
+          for (const c of ev.price_changes) applyChange(c.asset_id, c.price, c.size, c.side);
+        } else if (ev.asset_id && Array.isArray(ev.changes)) {
+          for (const c of ev.changes) applyChange(ev.asset_id, c.price, c.size, c.side);
+        }
+        push();
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  const stopPing = () => {
+    if (pingTimer != null) clearInterval(pingTimer);
+    pingTimer = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer != null) return;
+    const delay = reconnectDelayMs;
+    reconnectDelayMs = Math.min(RECONNECT_MAX_MS, reconnectDelayMs * 2);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed || !tokens) return;
+    const assetIds = [tokens.upTokenId, tokens.downTokenId];
+    books = new Map(assetIds.map((id) => [id, emptyBook()]));
+    exchangeAt = null;
+    setLive(false);
+    const socket = new WebSocket(POLYMARKET_WS_URL);
+    ws = socket;
+    socket.on("open", () => {
+      reconnectDelayMs = RECONNECT_MIN_MS;
+      log(`[Polymarket WS] Connected; subscribing ${slug}`, options.logStream);
+      socket.send(JSON.stringify({ assets_ids: assetIds, type: "market" }));
+      stopPing();
+      pingTimer = setInterval(() => {
+        if (socket.readyState === WebSocket.OPEN) socket.send("PING");
+      }, PING_INTERVAL_MS);
+    });
+    socket.on("message", (raw) => {
+      const text = raw.toString();
+      if (text === "PONG") return;
+      try {
+        const parsed = JSON.parse(text) as PolyWsEvent | PolyWsEvent[];
+        for (const ev of Array.isArray(parsed) ? parsed : [parsed]) handleEvent(ev);
+      } catch {
+        // ignore malformed frames
+      }
+    });
+    socket.on("error", (err) => {
+      log(`[Polymarket WS] Socket error: ${err.message}`, options.logStream);
+    });
+    socket.on("close", () => {
+      if (ws !== socket) return;
+      ws = null;
+      stopPing();
+      setLive(false);
+      if (!closed) {
+        log(`[Polymarket WS] Disconnected; reconnecting in ${reconnectDelayMs}ms (REST fallback active)`, options.logStream);
+        scheduleReconnect();
+      }
+    });
+  };
+
+  /** Resolve tokens for the current slot; on rollover drop the old socket and subscribe to the new pair. */
+  const refreshSlot = async () => {
+    const current = slugForCurrentSlot(options.market, options.schedule);
+    if (current === slug || refreshing) return;
+    refreshing = true;
+    try {
+      const next = await getTokenIdsForSlugCached(current);
+      if (closed) return;
+      if (slug) log(`[Polymarket WS] Slot rollover ${slug} → ${current}`, options.logStream);
+      slug = current;
+      tokens = next;
+      if (reconnectTimer != null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      const old = ws;
+      ws = null;
+      stopPing();
+      old?.close();
+      connect();
+    } catch {
+      // Gamma may not list the new slot yet; retried on next check
+    } finally {
+      refreshing = false;
+    }
+  };
+
+  const slotTimer = setInterval(() => {
+    refreshSlot().catch(() => {});
+  }, SLOT_CHECK_MS);
+  refreshSlot().catch(() => {});
+
+  return {
+    isLive() {
+      return live && ws != null && ws.readyState === WebSocket.OPEN;
+    },
+    getPrices() {
+      return this.isLive() ? buildPrices() : null;
+    },
+    close() {
+      closed = true;
+      clearInterval(slotTimer);
+      if (reconnectTimer != null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      stopPing();
+      setLive(false);
+      ws?.close();
+      ws = null;
+    },
+  };
+}
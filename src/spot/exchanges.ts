@@ -0,0 +1,137 @@
+/**
+ * Exchange spot feeds over public WebSocket trade/ticker streams (no auth).
+ * Coinbase: {ASSET}-USD ticker channel. Binance: {asset}usdt trade stream.
+ */
+import WebSocket from "ws";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import type { SpotStream, SpotTick } from "./feed";
+
+const RECONNECT_MIN_MS = 500;
+const RECONNECT_MAX_MS = 10_000;
+
+const COINBASE_WS_URL = "wss://ws-feed.exchange.coinbase.com";
+const BINANCE_WS_BASE = "wss://stream.binance.com:9443/ws";
+
+function log(message: string, stream?: string): void {
+  console.log(stream ? `[${stream}] ${message}` : message);
+  appendMonitorLogWithTimestamp(message, stream);
+}
+
+function toDate(raw: unknown): Date | null {
+  if (typeof raw === "number" && Number.isFinite(raw)) return new Date(raw);
+  if (typeof raw === "string") {
+    const ms = Date.parse(raw);
+    return Number.isFinite(ms) ? new Date(ms) : null;
+  }
+  return null;
+}
+
+/** One public WebSocket with reconnect backoff; `parse` turns a message into a tick or null. */
+function startExchangeStream(options: {
+  name: string;
+  url: string;
+  symbol: string;
+  subscribe?: Record<string, unknown>;
+  parse: (msg: Record<string, unknown>) => { price: number; exchangeAt: Date | null } | null;
+  onTick: (tick: SpotTick) => void;
+  logStream?: string;
+}): SpotStream {
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let live = false;
+  let reconnectDelayMs = RECONNECT_MIN_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer != null) return;
+    const delay = reconnectDelayMs;
+    reconnectDelayMs = Math.min(RECONNECT_MAX_MS, reconnectDelayMs * 2);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    const socket = new WebSocket(options.url);
+    ws = socket;
+    socket.on("open", () => {
+      reconnectDelayMs = RECONNECT_MIN_MS;
+      log(`[Spot] ${options.name} connected (${options.symbol})`, options.logStream);
+      if (options.subscribe) socket.send(JSON.stringify(options.subscribe));
+    });
+    socket.on("message", (raw) => {
+      try {
+        const parsed = options.parse(JSON.parse(raw.toString()) as Record<string, unknown>);
+        if (!parsed || !Number.isFinite(parsed.price) || parsed.price <= 0) return;
+        live = true;
+        options.onTick({
+          symbol: options.symbol,
+          price: parsed.price,
+          requestedAt: null,
+          exchangeAt: parsed.exchangeAt,
+          fetchedAt: new Date(),
+        });
+      } catch {
+        // ignore malformed frames
+      }
+    });
+    socket.on("error", (err) => {
+      log(`[Spot] ${options.name} socket error: ${err.message}`, options.logStream);
+    });
+    socket.on("close", () => {
+      if (ws !== socket) return;
+      ws = null;
+      live = false;
+      if (!closed) {
+        log(`[Spot] ${options.name} disconnected; reconnecting in ${reconnectDelayMs}ms`, options.logStream);
+        scheduleReconnect();
+      }
+    });
+  };
+
+  connect();
+
+  return {
+    isLive() {
+      return live && ws != null && ws.readyState === WebSocket.OPEN;
+    },
+    close() {
+      closed = true;
+      if (reconnectTimer != null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      live = false;
+      ws?.close();
+      ws = null;
+    },
+  };
+}
+
+export function startCoinbaseSpotStream(asset: string, onTick: (tick: SpotTick) => void, logStream?: string): SpotStream {
+  const productId = `${asset.toUpperCase()}-USD`;
+  return startExchangeStream({
+    name: "Coinbase",
+    url: COINBASE_WS_URL,
+    symbol: productId,
+    subscribe: { type: "subscribe", product_ids: [productId], channels: ["ticker"] },
+    parse: (msg) =>
+      msg.type === "ticker" && msg.product_id === productId
+        ? { price: parseFloat(String(msg.price)), exchangeAt: toDate(msg.time) }
+        : null,
+    onTick,
+    logStream,
+  });
+}
+
+export function startBinanceSpotStream(asset: string, onTick: (tick: SpotTick) => void, logStream?: string): SpotStream {
+  const symbol = `${asset.toLowerCase()}usdt`;
+  return startExchangeStream({
+    name: "Binance",
+    url: `${BINANCE_WS_BASE}/${symbol}@trade`,
+    symbol: symbol.toUpperCase(),
+    parse: (msg) => (msg.e === "trade" ? { price: parseFloat(String(msg.p)), exchangeAt: toDate(msg.T) } : null),
+    onTick,
+    logStream,
+  });
+}
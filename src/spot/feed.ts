@@ -0,0 +1,95 @@
+/**
+ * Spot reference for the underlying of an up/down pair (e.g. BTC for btc-updown-15m).
+ * startSpotStream picks the SPOT_SOURCE feed; createSpotReference tracks the latest price and the slot's price to beat
+ * (Kalshi floor_strike when listed, else the first spot tick at the slot open) and reports distance and time to close.
+ */
+import { SPOT_FILE, SPOT_OPEN_MAX_LAG_MS, SPOT_SOCKET, SPOT_SOURCE, type SpotSourceName } from "../core/config";
+import type { QuoteTiming } from "../core/feed-health";
+import { slotStartMs, type SlotSchedule } from "../core/slot-schedule";
+import { startBinanceSpotStream, startCoinbaseSpotStream } from "./exchanges";
+import { startFileSpotStream, startSocketSpotStream } from "./local";
+
+export interface SpotTick extends QuoteTiming {
+  /** Source symbol (e.g. "BTC-USD") */
+  symbol: string;
+  price: number;
+}
+
+export interface SpotStream {
+  /** True while the source is connected and has delivered a tick */
+  isLive(): boolean;
+  close(): void;
+}
+
+/** Spot view carried on every DualMarketPrices tick. */
+export interface SpotSnapshot {
+  source: SpotSourceName;
+  symbol: string;
+  /** Latest spot tick (null until the first one arrives) */
+  price: number | null;
+  tick: SpotTick | null;
+  /** Slot reference price the markets resolve against */
+  priceToBeat: number | null;
+  priceToBeatSource: "kalshi" | "spot-open" | null;
+  /** price - priceToBeat, in USD and basis points of priceToBeat */
+  distance: number | null;
+  distanceBps: number | null;
+  secondsToClose: number;
+}
+
+export interface SpotReference {
+  onTick(tick: SpotTick): void;
+  /** Snapshot at `nowMs` for the market closing at `closeMs`; `kalshiStrike` is the market's floor_strike if listed. */
+  snapshot(nowMs: number, closeMs: number, kalshiStrike: number | null): SpotSnapshot;
+}
+
+/** Start the configured spot source for an asset, or null when SPOT_SOURCE=none. */
+export function startSpotStream(asset: string, onTick: (tick: SpotTick) => void, logStream?: string): SpotStream | null {
+  switch (SPOT_SOURCE) {
+    case "coinbase":
+      return startCoinbaseSpotStream(asset, onTick, logStream);
+    case "binance":
+      return startBinanceSpotStream(asset, onTick, logStream);
+    case "file":
+      return startFileSpotStream(SPOT_FILE, asset, onTick, logStream);
+    case "socket":
+      return SPOT_SOCKET ? startSocketSpotStream(SPOT_SOCKET, asset, onTick, logStream) : null;
+    default:
+      return null;
+  }
+}
+
+export function createSpotReference(schedule: SlotSchedule): SpotReference {
+  let last: SpotTick | null = null;
+  let openSlotMs = 0;
+  let openPrice: number | null = null;
+
+  return {
+    onTick(tick) {
+      last = tick;
+      const at = (tick.exchangeAt ?? tick.fetchedAt).getTime();
+      const start = slotStartMs(schedule, at);
+      if (start === openSlotMs) return;
+      // First tick of a new slot; it only stands for the open if it came right after the boundary.
+      openSlotMs = start;
+      openPrice = at - start <= SPOT_OPEN_MAX_LAG_MS ? tick.price : null;
+    },
+    snapshot(nowMs, closeMs, kalshiStrike) {
+      const sameSlot = openSlotMs === slotStartMs(schedule, nowMs);
+      const priceToBeat = kalshiStrike ?? (sameSlot ? openPrice : null);
+      const price = last?.price ?? null;
+      const distance = price != null && priceToBeat != null ? price - priceToBeat : null;
+      return {
+        source: SPOT_SOURCE,
+        symbol: last?.symbol ?? "",
+        price,
+        tick: last,
+        priceToBeat,
+        priceToBeatSource: kalshiStrike != null ? "kalshi" : priceToBeat != null ? "spot-open" : null,
+        distance,
+        distanceBps: distance != null && priceToBeat ? (distance / priceToBeat) * 10_000 : null,
+        secondsToClose: Math.max(0, (closeMs - nowMs) / 1000),
+      };
+    },
+  };
+}
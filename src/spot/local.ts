@@ -0,0 +1,180 @@
+/**
+ * Local spot sources standing in for an exchange feed (replays, tests, a separate price process).
+ * Both read line-delimited ticks: JSON {"symbol":"btc","price":97000.5,"ts":1738641600000} ("symbol"/"ts" optional),
+ * "ts price" or a bare price. Lines for another symbol are ignored.
+ */
+import * as fs from "fs";
+import * as net from "net";
+import { appendMonitorLogWithTimestamp } from "../core/monitor-logger";
+import type { SpotStream, SpotTick } from "./feed";
+
+const FILE_POLL_MS = 250;
+const RECONNECT_MIN_MS = 500;
+const RECONNECT_MAX_MS = 10_000;
+
+function log(message: string, stream?: string): void {
+  console.log(stream ? `[${stream}] ${message}` : message);
+  appendMonitorLogWithTimestamp(message, stream);
+}
+
+/** Parse one line into a tick for `asset`, or null (blank, malformed or another symbol). */
+export function parseSpotLine(line: string, asset: string): SpotTick | null {
+  const text = line.trim();
+  if (!text) return null;
+  let symbol: string | undefined;
+  let price: number;
+  let ts: number | undefined;
+  if (text.startsWith("{")) {
+    try {
+      const row = JSON.parse(text) as { symbol?: unknown; price?: unknown; ts?: unknown };
+      symbol = typeof row.symbol === "string" ? row.symbol : undefined;
+      price = Number(row.price);
+      ts = row.ts != null ? Number(row.ts) : undefined;
+    } catch {
+      return null;
+    }
+  } else {
+    const parts = text.split(/\s+/).map(Number);
+    price = parts[parts.length - 1];
+    ts = parts.length > 1 ? parts[0] : undefined;
+  }
+  if (symbol && !symbol.toLowerCase().startsWith(asset.toLowerCase())) return null;
+  if (!Number.isFinite(price) || price <= 0) return null;
+  return {
+    symbol: symbol ?? asset.toUpperCase(),
+    price,
+    requestedAt: null,
+    exchangeAt: ts != null && Number.isFinite(ts) ? new Date(ts) : null,
+    fetchedAt: new Date(),
+  };
+}
+
+/** Tail `filePath` from its current end; a truncated file is read again from the start. */
+export function startFileSpotStream(
+  filePath: string,
+  asset: string,
+  onTick: (tick: SpotTick) => void,
+  logStream?: string
+): SpotStream {
+  let offset = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  let partial = "";
+  let lastTickAt = 0;
+  let reading = false;
+
+  const readNew = () => {
+    if (reading) return;
+    let size: number;
+    try {
+      size = fs.statSync(filePath).size;
+    } catch {
+      return;
+    }
+    if (size < offset) {
+      offset = 0;
+      partial = "";
+    }
+    if (size === offset) return;
+    reading = true;
+    const chunks: Buffer[] = [];
+    fs.createReadStream(filePath, { start: offset, end: size - 1 })
+      .on("data", (chunk) => chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk))
+      .on("end", () => {
+        offset = size;
+        const lines = (partial + Buffer.concat(chunks).toString("utf8")).split("\n");
+        partial = lines.pop() ?? "";
+        for (const line of lines) {
+          const tick = parseSpotLine(line, asset);
+          if (tick) {
+            lastTickAt = Date.now();
+            onTick(tick);
+          }
+        }
+        reading = false;
+      })
+      .on("error", () => {
+        reading = false;
+      });
+  };
+
+  log(`[Spot] Tailing ${filePath} (${asset})`, logStream);
+  const timer = setInterval(readNew, FILE_POLL_MS);
+  return {
+    isLive() {
+      return lastTickAt > 0;
+    },
+    close() {
+      clearInterval(timer);
+    },
+  };
+}
+
+/** Read ticks from a unix socket path or host:port, reconnecting with backoff. */
+export function startSocketSpotStream(
+  address: string,
+  asset: string,
+  onTick: (tick: SpotTick) => void,
+  logStream?: string
+): SpotStream {
+  let socket: net.Socket | null = null;
+  let closed = false;
+  let live = false;
+  let reconnectDelayMs = RECONNECT_MIN_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer != null) return;
+    const delay = reconnectDelayMs;
+    reconnectDelayMs = Math.min(RECONNECT_MAX_MS, reconnectDelayMs * 2);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    const hostPort = /^(.+):(\d+)$/.exec(address);
+    const s = hostPort ? net.connect(parseInt(hostPort[2], 10), hostPort[1]) : net.connect(address);
+    socket = s;
+    let partial = "";
+    s.setEncoding("utf8");
+    s.on("connect", () => {
+      reconnectDelayMs = RECONNECT_MIN_MS;
+      live = true;
+      log(`[Spot] Socket connected ${address} (${asset})`, logStream);
+    });
+    s.on("data", (data: string) => {
+      const lines = (partial + data).split("\n");
+      partial = lines.pop() ?? "";
+      for (const line of lines) {
+        const tick = parseSpotLine(line, asset);
+        if (tick) onTick(tick);
+      }
+    });
+    s.on("error", (err) => {
+      log(`[Spot] Socket error ${address}: ${err.message}`, logStream);
+    });
+    s.on("close", () => {
+      if (socket !== s) return;
+      socket = null;
+      live = false;
+      if (!closed) scheduleReconnect();
+    });
+  };
+
+  connect();
+
+  return {
+    isLive() {
+      return live;
+    },
+    close() {
+      closed = true;
+      if (reconnectTimer != null) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      live = false;
+      socket?.destroy();
+      socket = null;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Test setup. Config is read when it is first imported, so a test file sets its environment and moves into a scratch
+ * directory (state files, logs) before it requires the module under test; node --test runs each file in its own process.
+ */
+import { after } from "node:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/** Run the rest of this test file in an empty temp directory with `env` set; the directory is removed afterwards. */
+export function useScratchEnv(env: Record<string, string>): string {
+  const cwd = process.cwd();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "kalshi-poly-test-"));
+  process.chdir(dir);
+  Object.assign(process.env, env);
+  after(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  return dir;
+}